@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import fs from 'fs'
+import path from 'path'
+import { Readable } from 'stream'
+import { testRunManager } from '../../../lib/test-run-manager'
+import { getRunArtifactsDir, getContentType, resolveInside } from '../../../lib/artifacts'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ runId: string; path: string[] }> }
+) {
+  const { runId, path: segments } = await params
+
+  if (!testRunManager.getRun(runId)) {
+    return NextResponse.json(
+      { error: 'Run not found' },
+      { status: 404 }
+    )
+  }
+
+  const filePath = resolveInside(getRunArtifactsDir(runId), segments.join('/'))
+  if (!filePath || !fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+    return NextResponse.json(
+      { error: 'Artifact not found' },
+      { status: 404 }
+    )
+  }
+
+  const { searchParams } = new URL(request.url)
+  const headers: Record<string, string> = {
+    'Content-Type': getContentType(filePath),
+    'Content-Length': String(fs.statSync(filePath).size),
+    'Cache-Control': 'private, max-age=3600',
+    // Attachments are whatever a test saved, e.g. an HTML or SVG page dump;
+    // opened directly they must not run script on the dashboard's origin
+    'Content-Security-Policy': 'sandbox',
+    'X-Content-Type-Options': 'nosniff',
+  }
+  if (searchParams.get('download')) {
+    headers['Content-Disposition'] = `attachment; filename="${path.basename(filePath)}"`
+  }
+
+  const stream = Readable.toWeb(fs.createReadStream(filePath)) as ReadableStream
+  return new Response(stream, { headers })
+}
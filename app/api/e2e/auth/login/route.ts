@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  createSessionToken,
+  isAuthEnabled,
+  verifyPassword,
+  SESSION_COOKIE,
+  SESSION_TTL_SECONDS,
+} from '../../lib/auth'
+import type { AuthSessionResponse } from '../../lib/types'
+
+export const dynamic = 'force-dynamic'
+
+export async function POST(request: NextRequest) {
+  if (!isAuthEnabled()) {
+    return NextResponse.json(
+      { error: 'Authentication is not enabled' },
+      { status: 400 }
+    )
+  }
+
+  let body: { username?: unknown; password?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  const user = typeof body.username === 'string' && typeof body.password === 'string'
+    ? verifyPassword(body.username, body.password)
+    : null
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Invalid username or password' },
+      { status: 401 }
+    )
+  }
+
+  let token: string
+  try {
+    token = await createSessionToken(user)
+  } catch (error) {
+    console.error('Failed to create session:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create session' },
+      { status: 500 }
+    )
+  }
+
+  const response: AuthSessionResponse = { authEnabled: true, user }
+  const res = NextResponse.json(response)
+  res.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_TTL_SECONDS,
+  })
+  return res
+}
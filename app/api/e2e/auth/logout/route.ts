@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server'
+import { SESSION_COOKIE } from '../../lib/auth'
+
+export const dynamic = 'force-dynamic'
+
+export async function POST() {
+  const res = NextResponse.json({ success: true })
+  res.cookies.delete(SESSION_COOKIE)
+  return res
+}
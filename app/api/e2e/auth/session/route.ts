@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest, isAuthEnabled, ANONYMOUS_USER } from '../../lib/auth'
+import type { AuthSessionResponse } from '../../lib/types'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  const authEnabled = isAuthEnabled()
+  const response: AuthSessionResponse = {
+    authEnabled,
+    user: authEnabled ? await authenticateRequest(request) : ANONYMOUS_USER,
+  }
+  return NextResponse.json(response)
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { testRunManager } from '../../lib/test-run-manager'
 import { cancelTest } from '../../lib/playwright-executor'
+import { getRequestUser, hasRole } from '../../lib/auth'
 
 export async function POST(
   request: NextRequest,
@@ -16,6 +17,15 @@ export async function POST(
     )
   }
 
+  // Runners may only cancel runs they started; admins can cancel any run
+  const user = getRequestUser(request)
+  if (!hasRole(user, 'admin') && run.startedBy !== user.name) {
+    return NextResponse.json(
+      { error: 'You can only cancel runs you started' },
+      { status: 403 }
+    )
+  }
+
   if (!testRunManager.canCancel(runId)) {
     return NextResponse.json(
       { error: 'Run cannot be cancelled (already completed or cancelled)' },
@@ -23,10 +33,16 @@ export async function POST(
     )
   }
 
+  // Queued runs have no process yet; dropping them from the queue is enough
+  if (run.status === 'queued') {
+    testRunManager.updateStatus(runId, 'cancelled', user.name)
+    return NextResponse.json({ success: true, status: 'cancelled' })
+  }
+
   const cancelled = cancelTest(runId)
 
   if (cancelled) {
-    testRunManager.updateStatus(runId, 'cancelled')
+    testRunManager.updateStatus(runId, 'cancelled', user.name)
     return NextResponse.json({ success: true, status: 'cancelled' })
   } else {
     return NextResponse.json(
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { testRunManager } from '../lib/test-run-manager'
+import { compareRuns } from '../lib/run-comparison'
+import type { RunComparisonResponse, TestRun, TestRunSummary } from '../lib/types'
+
+export const dynamic = 'force-dynamic'
+
+function toSummary(run: TestRun): TestRunSummary {
+  return {
+    runId: run.runId,
+    status: run.status,
+    category: run.category,
+    config: run.config,
+    parentRunId: run.parentRunId,
+    triggeredBy: run.triggeredBy,
+    scheduleId: run.scheduleId,
+    startedBy: run.startedBy,
+    startedAt: run.startedAt,
+    completedAt: run.completedAt,
+    // Scenarios are already part of the comparison
+    results: run.results && { ...run.results, scenarios: [] },
+    reportUrl: run.reportUrl,
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const baseId = searchParams.get('base')
+  const headId = searchParams.get('head')
+
+  if (!baseId || !headId) {
+    return NextResponse.json(
+      { error: 'Both base and head run ids are required' },
+      { status: 400 }
+    )
+  }
+
+  const base = testRunManager.getRun(baseId)
+  const head = testRunManager.getRun(headId)
+  if (!base || !head) {
+    return NextResponse.json(
+      { error: `Run not found: ${!base ? baseId : headId}` },
+      { status: 404 }
+    )
+  }
+
+  const { summary, scenarios } = compareRuns(base, head)
+
+  const response: RunComparisonResponse = {
+    base: toSummary(base),
+    head: toSummary(head),
+    summary,
+    scenarios,
+  }
+
+  return NextResponse.json(response)
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { durationStore } from '../lib/duration-store'
+import {
+  analyzeDurationTrend,
+  DEFAULT_DURATION_THRESHOLD,
+  DEFAULT_DURATION_WINDOW,
+} from '../lib/duration-trends'
+import type { DurationTrendsResponse } from '../lib/types'
+
+export const dynamic = 'force-dynamic'
+
+// Samples returned per scenario when listing every scenario (enough for a sparkline)
+const DEFAULT_SAMPLE_LIMIT = 20
+
+/**
+ * Duration history and regression flags per scenario.
+ *
+ * Query: scenarioId (full history for one scenario), window, threshold,
+ * regressed=1 (only regressed scenarios), samples (per-scenario limit).
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const scenarioId = searchParams.get('scenarioId')
+  const baselineWindow = Math.max(
+    parseInt(searchParams.get('window') || '', 10) || DEFAULT_DURATION_WINDOW,
+    1
+  )
+  const threshold = parseFloat(searchParams.get('threshold') || '')
+  const options = {
+    window: baselineWindow,
+    threshold: Number.isFinite(threshold) && threshold > 0 ? threshold : DEFAULT_DURATION_THRESHOLD,
+  }
+
+  const entries = scenarioId
+    ? [[scenarioId, durationStore.getSamples(scenarioId)] as const]
+    : Array.from(durationStore.getAll().entries())
+  const sampleLimit = scenarioId
+    ? Infinity
+    : Math.max(parseInt(searchParams.get('samples') || '', 10) || DEFAULT_SAMPLE_LIMIT, baselineWindow + 1)
+
+  let trends = entries.map(([id, samples]) => {
+    const trend = analyzeDurationTrend(id, samples, options)
+    return { ...trend, samples: trend.samples.slice(-sampleLimit) }
+  })
+  if (searchParams.get('regressed') === '1') {
+    trends = trends.filter(trend => trend.regressed)
+  }
+
+  const response: DurationTrendsResponse = { ...options, trends }
+  return NextResponse.json(response)
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getEnvironment } from '../../../lib/environments'
+import { checkEnvironmentHealth } from '../../../lib/environment-health'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  const { name } = await params
+
+  const environment = getEnvironment(name)
+  if (!environment) {
+    return NextResponse.json(
+      { error: 'Environment not found' },
+      { status: 404 }
+    )
+  }
+
+  const force = new URL(request.url).searchParams.get('refresh') === '1'
+  const health = await checkEnvironmentHealth(environment, { force })
+  return NextResponse.json(health)
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestUser, hasRole } from '../../lib/auth'
+import { getEnvironment, redactEnvironment, removeEnvironment } from '../../lib/environments'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  const { name } = await params
+
+  const environment = getEnvironment(name)
+  if (!environment) {
+    return NextResponse.json(
+      { error: 'Environment not found' },
+      { status: 404 }
+    )
+  }
+
+  return NextResponse.json(hasRole(getRequestUser(request), 'admin') ? environment : redactEnvironment(environment))
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  const { name } = await params
+
+  try {
+    if (!removeEnvironment(name)) {
+      return NextResponse.json(
+        { error: 'Environment not found' },
+        { status: 404 }
+      )
+    }
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to remove environment' },
+      { status: 409 }
+    )
+  }
+
+  return NextResponse.json({ success: true })
+}
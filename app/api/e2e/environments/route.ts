@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import path from 'path'
+import fs from 'fs'
+import { getRequestUser, hasRole } from '../lib/auth'
+import { getEnvironment, listEnvironments, redactEnvironment, saveEnvironment, validateEnvironment } from '../lib/environments'
+import type { EnvironmentTarget, EnvironmentsResponse } from '../lib/types'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  const environments = listEnvironments()
+  const response: EnvironmentsResponse = {
+    environments: hasRole(getRequestUser(request), 'admin') ? environments : environments.map(redactEnvironment),
+  }
+  return NextResponse.json(response)
+}
+
+export async function POST(request: NextRequest) {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  const error = validateEnvironment(body)
+  if (error) {
+    return NextResponse.json({ error }, { status: 400 })
+  }
+
+  const target = body as EnvironmentTarget
+  if (!fs.existsSync(path.join(process.cwd(), target.configFile))) {
+    return NextResponse.json(
+      { error: `Config file not found: ${target.configFile}` },
+      { status: 400 }
+    )
+  }
+
+  // Posting an existing name replaces that environment
+  const exists = !!getEnvironment(target.name)
+  try {
+    return NextResponse.json(saveEnvironment(target), { status: exists ? 200 : 201 })
+  } catch (saveError) {
+    return NextResponse.json(
+      { error: saveError instanceof Error ? saveError.message : 'Failed to save environment' },
+      { status: 409 }
+    )
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ALL_RUNS, testRunManager } from '../lib/test-run-manager'
+import { createEventStream, replayRunEvents, RUN_EVENT_NAMES } from '../lib/run-events'
+import type { RunEventMessage, RunEventName } from '../lib/types'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+function parseList(value: string | null): string[] {
+  return value ? value.split(',').map(item => item.trim()).filter(Boolean) : []
+}
+
+/**
+ * One stream for the events of many runs. Each message is a RunEventMessage
+ * under the run's own event name.
+ *
+ * ?runIds=a,b     every event of these runs
+ * ?events=a,b     these events of every run (e.g. created,status,queue)
+ * ?since=run:seq  replay what this run's stream had after seq (0 for all)
+ *
+ * With both filters an event matching either is sent; with neither, everything is.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl
+  const runIds = new Set(parseList(searchParams.get('runIds')))
+  const events = new Set(parseList(searchParams.get('events')))
+
+  const unknownEvent = Array.from(events).find(event => !RUN_EVENT_NAMES.includes(event as RunEventName))
+  if (unknownEvent) {
+    return NextResponse.json(
+      { error: `Invalid event "${unknownEvent}". Must be one of: ${RUN_EVENT_NAMES.join(', ')}` },
+      { status: 400 }
+    )
+  }
+
+  const since: Array<[string, number]> = []
+  for (const entry of parseList(searchParams.get('since'))) {
+    const separator = entry.lastIndexOf(':')
+    const seq = Number(entry.slice(separator + 1))
+    if (separator <= 0 || !Number.isInteger(seq) || seq < 0) {
+      return NextResponse.json(
+        { error: `Invalid since "${entry}". Use runId:seq` },
+        { status: 400 }
+      )
+    }
+    since.push([entry.slice(0, separator), seq])
+  }
+
+  const isSubscribed = (runId: string, event: string) =>
+    (runIds.size === 0 && events.size === 0) || runIds.has(runId) || events.has(event)
+
+  return createEventStream(request, ({ send }) => {
+    const sendMessage = (runId: string, event: string, data: unknown, seq: number) => {
+      if (!isSubscribed(runId, event)) return
+      const message: RunEventMessage = { runId, seq, data }
+      send(event, message)
+    }
+
+    for (const [runId, seq] of since) {
+      const run = testRunManager.getRun(runId)
+      if (!run) continue
+      replayRunEvents(run, seq, (event, data, eventSeq) => sendMessage(runId, event, data, eventSeq ?? 0))
+    }
+
+    return testRunManager.subscribe(ALL_RUNS, (event, data, seq, runId) => sendMessage(runId, event, data, seq))
+  })
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { testRunManager } from '../lib/test-run-manager'
+import { analyzeFlakiness } from '../lib/flaky-analysis'
+import type { FlakyTestsResponse, TestConfig } from '../lib/types'
+
+export const dynamic = 'force-dynamic'
+
+const MAX_RUNS = 500
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const runLimit = Math.min(
+    Math.max(parseInt(searchParams.get('runs') || '50', 10) || 50, 1),
+    MAX_RUNS
+  )
+  const limit = Math.max(parseInt(searchParams.get('limit') || '20', 10) || 20, 1)
+  const config = (searchParams.get('config') || undefined) as TestConfig | undefined
+
+  const finished = testRunManager
+    .queryHistory({ config, limit: MAX_RUNS })
+    .runs.filter(run => run.results)
+    .slice(0, runLimit)
+
+  const response: FlakyTestsResponse = {
+    analyzedRuns: finished.length,
+    tests: analyzeFlakiness(finished).slice(0, limit),
+  }
+
+  return NextResponse.json(response)
+}
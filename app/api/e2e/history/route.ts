@@ -1,25 +1,48 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { testRunManager } from '../lib/test-run-manager'
-import type { TestRunSummary } from '../lib/types'
+import type { TestCategory, TestConfig, TestHistoryResponse, TestRunSummary, TestStatus } from '../lib/types'
+
+const MAX_PAGE_SIZE = 100
+
+function parseDate(value: string | null): string | undefined {
+  if (!value) return undefined
+  const time = new Date(value).getTime()
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString()
+}
 
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url)
   const limit = Math.min(
-    parseInt(searchParams.get('limit') || '20', 10),
-    50
+    Math.max(parseInt(searchParams.get('limit') || '20', 10) || 20, 1),
+    MAX_PAGE_SIZE
   )
+  const offset = Math.max(parseInt(searchParams.get('offset') || '0', 10) || 0, 0)
 
-  const runs = testRunManager.getHistory(limit)
+  const { runs, total } = testRunManager.queryHistory({
+    status: (searchParams.get('status') || undefined) as TestStatus | undefined,
+    category: (searchParams.get('category') || undefined) as TestCategory | undefined,
+    config: (searchParams.get('config') || undefined) as TestConfig | undefined,
+    from: parseDate(searchParams.get('from')),
+    to: parseDate(searchParams.get('to')),
+    offset,
+    limit,
+  })
 
   const history: TestRunSummary[] = runs.map(run => ({
     runId: run.runId,
     status: run.status,
     category: run.category,
     config: run.config,
+    parentRunId: run.parentRunId,
+    triggeredBy: run.triggeredBy,
+    scheduleId: run.scheduleId,
+    startedBy: run.startedBy,
     startedAt: run.startedAt,
     completedAt: run.completedAt,
     results: run.results,
+    reportUrl: run.reportUrl,
   }))
 
-  return NextResponse.json(history)
+  const response: TestHistoryResponse = { runs: history, total, offset, limit }
+  return NextResponse.json(response)
 }
@@ -0,0 +1,84 @@
+import path from 'path'
+import fs from 'fs'
+import { getDataDir } from './run-store'
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webm': 'video/webm',
+  '.zip': 'application/zip',
+  '.json': 'application/json',
+  '.txt': 'text/plain; charset=utf-8',
+  '.md': 'text/markdown; charset=utf-8',
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.ttf': 'font/ttf',
+  '.woff2': 'font/woff2',
+  '.webmanifest': 'application/manifest+json',
+}
+
+/**
+ * Playwright output folder (screenshots, videos, traces) for a single run.
+ */
+export function getRunArtifactsDir(runId: string): string {
+  return path.join(getDataDir(), 'artifacts', runId)
+}
+
+/**
+ * Playwright HTML report folder for a single run.
+ */
+export function getRunReportDir(runId: string): string {
+  return path.join(getDataDir(), 'reports', runId)
+}
+
+/**
+ * Blob reports of a sharded run, merged into the HTML report when it ends.
+ */
+export function getRunBlobDir(runId: string): string {
+  return path.join(getDataDir(), 'blobs', runId)
+}
+
+export function getReportUrl(runId: string): string {
+  return `/api/e2e/reports/${runId}/index.html`
+}
+
+export function hasRunReport(runId: string): boolean {
+  return fs.existsSync(path.join(getRunReportDir(runId), 'index.html'))
+}
+
+export function getArtifactUrl(runId: string, relativePath: string): string {
+  const encoded = relativePath.split('/').map(encodeURIComponent).join('/')
+  return `/api/e2e/artifacts/${runId}/${encoded}`
+}
+
+/**
+ * Resolve a path below `baseDir`, or null if it would escape it.
+ */
+export function resolveInside(baseDir: string, relativePath: string): string | null {
+  const base = path.resolve(baseDir)
+  const resolved = path.resolve(base, relativePath)
+  if (resolved !== base && !resolved.startsWith(base + path.sep)) {
+    return null
+  }
+  return resolved
+}
+
+export function getContentType(filePath: string): string {
+  return CONTENT_TYPES[path.extname(filePath).toLowerCase()] ?? 'application/octet-stream'
+}
+
+/**
+ * Delete a run's artifacts and reports.
+ */
+export function removeRunArtifacts(runId: string): void {
+  for (const dir of [getRunArtifactsDir(runId), getRunReportDir(runId), getRunBlobDir(runId)]) {
+    try {
+      fs.rmSync(dir, { recursive: true, force: true })
+    } catch (error) {
+      console.error(`[Artifacts] Failed to remove ${dir}:`, error)
+    }
+  }
+}
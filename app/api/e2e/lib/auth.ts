@@ -0,0 +1,200 @@
+import type { AuthUser, UserRole } from './types'
+
+/**
+ * Authentication shared by middleware.ts (edge runtime) and the API routes,
+ * so it only uses Web Crypto and no Node modules.
+ *
+ * Users and API tokens come from the environment:
+ *   E2E_USERS=alice:password:admin,bob:password:runner
+ *   E2E_API_TOKENS=ci:token:runner
+ * Sessions are cookies signed with E2E_SESSION_SECRET. When neither users nor
+ * tokens are configured, auth is off and every request acts as an admin.
+ */
+
+export const SESSION_COOKIE = 'e2e_session'
+export const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60
+
+// Set by the middleware for route handlers; client-sent values are overwritten
+export const USER_HEADER = 'x-e2e-user'
+export const ROLE_HEADER = 'x-e2e-role'
+
+const ROLE_LEVELS: Record<UserRole, number> = { viewer: 0, runner: 1, admin: 2 }
+
+export const ANONYMOUS_USER: AuthUser = { name: 'anonymous', role: 'admin' }
+
+interface Credential extends AuthUser {
+  secret: string
+}
+
+interface SessionPayload {
+  sub: string
+  role: UserRole
+  exp: number
+}
+
+function isRole(value: string): value is UserRole {
+  return Object.prototype.hasOwnProperty.call(ROLE_LEVELS, value)
+}
+
+/**
+ * Parse "name:secret:role" entries. The secret may itself contain colons.
+ */
+function parseCredentials(value: string | undefined): Credential[] {
+  if (!value) return []
+  return value
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .flatMap(entry => {
+      const first = entry.indexOf(':')
+      const last = entry.lastIndexOf(':')
+      const role = entry.slice(last + 1)
+      if (first <= 0 || last <= first || !isRole(role)) {
+        console.error(`[Auth] Ignoring malformed credential entry for "${entry.split(':')[0]}"`)
+        return []
+      }
+      return [{ name: entry.slice(0, first), secret: entry.slice(first + 1, last), role }]
+    })
+}
+
+function getUsers(): Credential[] {
+  return parseCredentials(process.env.E2E_USERS)
+}
+
+function getApiTokens(): Credential[] {
+  return parseCredentials(process.env.E2E_API_TOKENS)
+}
+
+export function isAuthEnabled(): boolean {
+  return getUsers().length > 0 || getApiTokens().length > 0
+}
+
+export function hasRole(user: AuthUser, required: UserRole): boolean {
+  return ROLE_LEVELS[user.role] >= ROLE_LEVELS[required]
+}
+
+function safeEqual(a: string, b: string): boolean {
+  let diff = a.length ^ b.length
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0)
+  }
+  return diff === 0
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = ''
+  for (const byte of bytes) binary += String.fromCharCode(byte)
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(value: string): string {
+  return atob(value.replace(/-/g, '+').replace(/_/g, '/'))
+}
+
+async function sign(value: string, secret: string): Promise<string> {
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(value))
+  return toBase64Url(new Uint8Array(signature))
+}
+
+export function verifyPassword(name: string, password: string): AuthUser | null {
+  const user = getUsers().find(item => item.name === name)
+  if (!user || !safeEqual(user.secret, password)) return null
+  return { name: user.name, role: user.role }
+}
+
+export function verifyApiToken(token: string): AuthUser | null {
+  const match = getApiTokens().find(item => safeEqual(item.secret, token))
+  return match ? { name: match.name, role: match.role } : null
+}
+
+/**
+ * Create a signed session cookie value. Throws when E2E_SESSION_SECRET is missing.
+ */
+export async function createSessionToken(user: AuthUser): Promise<string> {
+  const secret = process.env.E2E_SESSION_SECRET
+  if (!secret) {
+    throw new Error('E2E_SESSION_SECRET is not set')
+  }
+  const payload: SessionPayload = {
+    sub: user.name,
+    role: user.role,
+    exp: Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS,
+  }
+  const encoded = toBase64Url(new TextEncoder().encode(JSON.stringify(payload)))
+  return `${encoded}.${await sign(encoded, secret)}`
+}
+
+export async function verifySessionToken(token: string): Promise<AuthUser | null> {
+  const secret = process.env.E2E_SESSION_SECRET
+  const [encoded, signature] = token.split('.')
+  if (!secret || !encoded || !signature) return null
+  if (!safeEqual(await sign(encoded, secret), signature)) return null
+
+  try {
+    const payload = JSON.parse(fromBase64Url(encoded)) as SessionPayload
+    if (payload.exp < Date.now() / 1000 || !isRole(payload.role)) return null
+    // Users removed from E2E_USERS lose access even with a valid cookie
+    const user = getUsers().find(item => item.name === payload.sub)
+    return user ? { name: user.name, role: user.role } : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * The minimum role for an API request, or null for public endpoints.
+ */
+export function getRequiredRole(method: string, pathname: string): UserRole | null {
+  if (pathname.startsWith('/api/e2e/auth/')) return null
+  // Starts runs even on GET (Vercel cron); CRON_SECRET is checked by the route
+  if (pathname === '/api/e2e/schedules/tick') return 'admin'
+  // Channel settings include webhook URLs
+  if (pathname.startsWith('/api/e2e/notifications')) return 'admin'
+  if (method === 'GET' || method === 'HEAD') return 'viewer'
+
+  if (
+    pathname === '/api/e2e/run' ||
+    /^\/api\/e2e\/run\/[^/]+\/rerun-failed$/.test(pathname) ||
+    pathname.startsWith('/api/e2e/cancel/')
+  ) {
+    return 'runner'
+  }
+  return 'admin'
+}
+
+/**
+ * Authenticate from an API token (Authorization: Bearer) or the session cookie.
+ */
+export async function authenticateRequest(request: Request): Promise<AuthUser | null> {
+  const authorization = request.headers.get('authorization')
+  if (authorization?.startsWith('Bearer ')) {
+    return verifyApiToken(authorization.slice('Bearer '.length))
+  }
+
+  const cookie = request.headers.get('cookie') ?? ''
+  const session = cookie
+    .split(';')
+    .map(part => part.trim())
+    .find(part => part.startsWith(`${SESSION_COOKIE}=`))
+    ?.slice(SESSION_COOKIE.length + 1)
+  return session ? verifySessionToken(decodeURIComponent(session)) : null
+}
+
+/**
+ * The user the middleware authenticated for this request.
+ */
+export function getRequestUser(request: Request): AuthUser {
+  const name = request.headers.get(USER_HEADER)
+  const role = request.headers.get(ROLE_HEADER)
+  if (name && role && isRole(role)) return { name, role }
+  // Without the middleware's headers, only fall back to full access when auth is off
+  return isAuthEnabled() ? { name: 'anonymous', role: 'viewer' } : ANONYMOUS_USER
+}
@@ -0,0 +1,20 @@
+import { testRunManager } from './test-run-manager'
+import { durationStore } from './duration-store'
+import { notifyRunFinished } from './notifications'
+import { startScheduler } from './scheduler'
+
+/**
+ * Server start-up, run once from instrumentation.ts: hook what happens after
+ * a run finishes into the manager, and start the in-process scheduler if enabled.
+ */
+export function initE2EServer(): void {
+  testRunManager.onRunFinished('durations', run => durationStore.record(run))
+  testRunManager.onRunFinished('notifications', run => {
+    notifyRunFinished(run).catch(error => console.error('[Notifications] Failed to notify:', error))
+  })
+
+  // Long-running servers can check schedules themselves instead of relying on cron
+  if (process.env.E2E_SCHEDULER === 'true') {
+    startScheduler()
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Minimal five-field cron parser (minute hour day-of-month month day-of-week).
+ * Supports *, lists, ranges, steps and the @hourly/@daily/... shorthands.
+ * Times are evaluated in UTC, like Vercel cron jobs.
+ */
+
+interface CronFields {
+  minutes: Set<number>
+  hours: Set<number>
+  daysOfMonth: Set<number>
+  months: Set<number>
+  daysOfWeek: Set<number>
+  // When both day fields are restricted, a day matching either one counts
+  daysOfMonthRestricted: boolean
+  daysOfWeekRestricted: boolean
+}
+
+const FIELD_RANGES: Array<{ name: string; min: number; max: number }> = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+]
+
+const MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+}
+
+// Give up looking for a match after this long (e.g. "0 0 31 2 *")
+const MAX_SEARCH_YEARS = 5
+
+function parseField(value: string, { name, min, max }: (typeof FIELD_RANGES)[number]): Set<number> {
+  const result = new Set<number>()
+
+  for (const part of value.split(',')) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/)
+    if (!match) {
+      throw new Error(`Invalid ${name} field "${value}"`)
+    }
+
+    const [, all, startValue, endValue, stepValue] = match
+    const start = all === '*' ? min : parseInt(startValue, 10)
+    // "5/15" means from 5 to the end of the range
+    const end = all === '*' ? max : endValue !== undefined ? parseInt(endValue, 10) : stepValue ? max : start
+    const step = stepValue ? parseInt(stepValue, 10) : 1
+
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`Invalid ${name} field "${value}". Values must be between ${min} and ${max}`)
+    }
+    for (let i = start; i <= end; i += step) {
+      result.add(i)
+    }
+  }
+
+  return result
+}
+
+export function parseCron(expression: string): CronFields {
+  const normalized = MACROS[expression.trim().toLowerCase()] ?? expression.trim()
+  const parts = normalized.split(/\s+/)
+  if (parts.length !== 5) {
+    throw new Error('Cron expression must have five fields: minute hour day-of-month month day-of-week')
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) =>
+    parseField(part, FIELD_RANGES[index])
+  )
+  // 7 is an alias for Sunday
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0)
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    // As in cron, a field starting with * (including steps like */2) doesn't
+    // restrict the day, so only the other day field applies
+    daysOfMonthRestricted: !parts[2].startsWith('*'),
+    daysOfWeekRestricted: !parts[4].startsWith('*'),
+  }
+}
+
+/**
+ * Returns an error message, or null if the expression is valid.
+ */
+export function validateCron(expression: unknown): string | null {
+  if (typeof expression !== 'string' || !expression.trim()) {
+    return 'Cron expression is required'
+  }
+  try {
+    parseCron(expression)
+    return null
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid cron expression'
+  }
+}
+
+function matchesDay(fields: CronFields, date: Date): boolean {
+  const dayOfMonth = fields.daysOfMonth.has(date.getUTCDate())
+  const dayOfWeek = fields.daysOfWeek.has(date.getUTCDay())
+  if (fields.daysOfMonthRestricted && fields.daysOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek
+  }
+  return dayOfMonth && dayOfWeek
+}
+
+/**
+ * The first time strictly after `after` that matches the expression,
+ * or null if there is none within a few years.
+ */
+export function getNextCronTime(expression: string, after: Date = new Date()): Date | null {
+  const fields = parseCron(expression)
+  const date = new Date(after.getTime())
+  date.setUTCSeconds(0, 0)
+  date.setUTCMinutes(date.getUTCMinutes() + 1)
+
+  const limit = after.getTime() + MAX_SEARCH_YEARS * 366 * 24 * 60 * 60 * 1000
+
+  // Skip whole months, days and hours that can't match before stepping minutes
+  while (date.getTime() <= limit) {
+    if (!fields.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1)
+      date.setUTCHours(0, 0)
+      continue
+    }
+    if (!matchesDay(fields, date)) {
+      date.setUTCDate(date.getUTCDate() + 1)
+      date.setUTCHours(0, 0)
+      continue
+    }
+    if (!fields.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0)
+      continue
+    }
+    if (!fields.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1)
+      continue
+    }
+    return date
+  }
+
+  return null
+}
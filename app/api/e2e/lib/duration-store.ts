@@ -0,0 +1,110 @@
+import path from 'path'
+import fs from 'fs'
+import { getDataDir } from './run-store'
+import { getLegacyScenarioId } from './scenario-ids'
+import type { DurationSample, TestRun } from './types'
+
+const MAX_SAMPLES_PER_SCENARIO = 100
+
+const globalForDurations = globalThis as unknown as {
+  durationStoreInstance: DurationStore | undefined
+}
+
+/**
+ * Per-scenario durations of passed tests, kept independently of run history
+ * so trends outlive the runs they came from.
+ * Stored as a single JSON document; with E2E_RUN_STORE=memory nothing is written.
+ */
+class DurationStore {
+  private samples: Map<string, DurationSample[]> | null = null
+
+  constructor(private readonly filePath: string | null) {}
+
+  static getInstance(): DurationStore {
+    if (!globalForDurations.durationStoreInstance) {
+      const filePath = process.env.E2E_RUN_STORE === 'memory'
+        ? null
+        : path.join(getDataDir(), 'durations.json')
+      globalForDurations.durationStoreInstance = new DurationStore(filePath)
+    }
+    return globalForDurations.durationStoreInstance
+  }
+
+  /**
+   * Record the durations of a finished run's passed scenarios.
+   * Failed attempts are left out because timeouts would skew the baseline.
+   */
+  record(run: TestRun): void {
+    const scenarios = run.results?.scenarios ?? []
+    const samples = this.load()
+    const recordedAt = run.completedAt ?? new Date().toISOString()
+    let changed = false
+
+    for (const scenario of scenarios) {
+      if (scenario.status !== 'passed' || !scenario.duration) continue
+
+      const existing = samples.get(scenario.id) ?? this.takeLegacySamples(samples, scenario.id)
+      if (existing.some(sample => sample.runId === run.runId)) continue
+
+      existing.push({ runId: run.runId, duration: scenario.duration, recordedAt })
+      samples.set(scenario.id, existing.slice(-MAX_SAMPLES_PER_SCENARIO))
+      changed = true
+    }
+
+    if (changed) this.save()
+  }
+
+  getSamples(scenarioId: string): DurationSample[] {
+    const samples = this.load()
+    const legacyId = getLegacyScenarioId(scenarioId)
+    return samples.get(scenarioId) ?? (legacyId ? samples.get(legacyId) : undefined) ?? []
+  }
+
+  getAll(): Map<string, DurationSample[]> {
+    return this.load()
+  }
+
+  /**
+   * Samples recorded under the id the scenario had before describe blocks were
+   * part of it. They move to the current id with its first new sample.
+   */
+  private takeLegacySamples(samples: Map<string, DurationSample[]>, scenarioId: string): DurationSample[] {
+    const legacyId = getLegacyScenarioId(scenarioId)
+    const legacy = legacyId ? samples.get(legacyId) : undefined
+    if (!legacyId || !legacy) return []
+    samples.delete(legacyId)
+    return legacy
+  }
+
+  private load(): Map<string, DurationSample[]> {
+    if (this.samples) return this.samples
+
+    this.samples = new Map()
+    if (!this.filePath) return this.samples
+
+    try {
+      const content = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as Record<string, DurationSample[]>
+      this.samples = new Map(Object.entries(content))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('[DurationStore] Failed to load durations:', error)
+      }
+    }
+    return this.samples
+  }
+
+  private save(): void {
+    if (!this.filePath || !this.samples) return
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+      const tmp = `${this.filePath}.${process.pid}.tmp`
+      fs.writeFileSync(tmp, JSON.stringify(Object.fromEntries(this.samples)))
+      fs.renameSync(tmp, this.filePath)
+    } catch (error) {
+      console.error('[DurationStore] Failed to save durations:', error)
+    }
+  }
+}
+
+export const durationStore = DurationStore.getInstance()
@@ -0,0 +1,54 @@
+import type { DurationSample, ScenarioDurationTrend } from './types'
+
+export interface DurationTrendOptions {
+  // Samples before the latest one that make up the baseline
+  window: number
+  // Relative slowdown that counts as a regression, e.g. 0.5 for 50% slower
+  threshold: number
+}
+
+export const DEFAULT_DURATION_WINDOW = 10
+export const DEFAULT_DURATION_THRESHOLD = 0.5
+
+// Fewer baseline samples than this are too noisy to compare against
+const MIN_BASELINE_SAMPLES = 3
+// Sub-second swings are scheduling noise, not regressions
+const MIN_REGRESSION_MS = 1000
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+}
+
+/**
+ * Compare a scenario's latest duration with the median of the runs before it.
+ */
+export function analyzeDurationTrend(
+  scenarioId: string,
+  samples: DurationSample[],
+  options: DurationTrendOptions
+): ScenarioDurationTrend {
+  if (samples.length === 0) {
+    return { scenarioId, samples, latest: null, baseline: null, change: null, regressed: false }
+  }
+
+  const latest = samples[samples.length - 1].duration
+  const previous = samples.slice(-(options.window + 1), -1).map(sample => sample.duration)
+
+  if (previous.length < MIN_BASELINE_SAMPLES) {
+    return { scenarioId, samples, latest, baseline: null, change: null, regressed: false }
+  }
+
+  const baseline = median(previous)
+  const change = baseline > 0 ? latest / baseline - 1 : 0
+
+  return {
+    scenarioId,
+    samples,
+    latest,
+    baseline,
+    change,
+    regressed: change > options.threshold && latest - baseline >= MIN_REGRESSION_MS,
+  }
+}
@@ -0,0 +1,121 @@
+import tls from 'tls'
+import { getApiBaseUrl, getHubUrl } from './environments'
+import type { EndpointHealth, EnvironmentHealth, EnvironmentTarget, HealthStatus } from './types'
+
+const PROBE_TIMEOUT_MS = 5000
+const CACHE_TTL_MS = 30 * 1000
+// Certificates closer to expiry than this mark the environment as degraded
+const TLS_WARNING_DAYS = 14
+
+const globalForHealth = globalThis as unknown as {
+  environmentHealthCache: Map<string, EnvironmentHealth> | undefined
+}
+
+function getCache(): Map<string, EnvironmentHealth> {
+  if (!globalForHealth.environmentHealthCache) {
+    globalForHealth.environmentHealthCache = new Map()
+  }
+  return globalForHealth.environmentHealthCache
+}
+
+function getCertificateExpiry(url: URL): Promise<Date | null> {
+  return new Promise((resolve) => {
+    const socket = tls.connect({
+      host: url.hostname,
+      port: Number(url.port) || 443,
+      servername: url.hostname,
+      // Only reading the certificate; expired or self-signed ones are reported, not rejected
+      rejectUnauthorized: false,
+      timeout: PROBE_TIMEOUT_MS,
+    })
+    const finish = (expiry: Date | null) => {
+      socket.destroy()
+      resolve(expiry)
+    }
+    socket.once('secureConnect', () => {
+      const { valid_to: validTo } = socket.getPeerCertificate()
+      finish(validTo ? new Date(validTo) : null)
+    })
+    socket.once('timeout', () => finish(null))
+    socket.once('error', () => finish(null))
+  })
+}
+
+async function probeEndpoint(name: EndpointHealth['name'], rawUrl: string): Promise<EndpointHealth> {
+  const health: EndpointHealth = { name, url: rawUrl, ok: false }
+  const url = new URL(rawUrl)
+
+  const started = Date.now()
+  try {
+    const response = await fetch(url, {
+      redirect: 'manual',
+      cache: 'no-store',
+      signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+    })
+    health.latencyMs = Date.now() - started
+    health.statusCode = response.status
+    // Anything but a server error means the service is up (APIs often 401/404 on /)
+    health.ok = response.status < 500
+    // Only the status matters; an unread body would hold the socket until GC
+    await response.body?.cancel().catch(() => undefined)
+  } catch (error) {
+    health.latencyMs = Date.now() - started
+    health.error = error instanceof Error && error.name === 'TimeoutError'
+      ? `No response within ${PROBE_TIMEOUT_MS / 1000}s`
+      : error instanceof Error
+      ? (error.cause as Error | undefined)?.message || error.message
+      : String(error)
+  }
+
+  if (url.protocol === 'https:' && health.statusCode !== undefined) {
+    const expiry = await getCertificateExpiry(url)
+    if (expiry) {
+      health.tlsExpiresAt = expiry.toISOString()
+      health.tlsDaysRemaining = Math.floor((expiry.getTime() - Date.now()) / (24 * 60 * 60 * 1000))
+    }
+  }
+
+  return health
+}
+
+function getOverallStatus(endpoints: EndpointHealth[]): HealthStatus {
+  const target = endpoints.find(endpoint => endpoint.name === 'target')
+  if (!target?.ok || (target.tlsDaysRemaining !== undefined && target.tlsDaysRemaining < 0)) {
+    return 'down'
+  }
+  const isDegraded = endpoints.some(endpoint =>
+    !endpoint.ok || (endpoint.tlsDaysRemaining !== undefined && endpoint.tlsDaysRemaining < TLS_WARNING_DAYS)
+  )
+  return isDegraded ? 'degraded' : 'healthy'
+}
+
+/**
+ * Probe an environment's target URL and, when it logs in through the setup
+ * project, the Hub and API the setup talks to. Results are cached briefly.
+ */
+export async function checkEnvironmentHealth(
+  environment: EnvironmentTarget,
+  { force = false }: { force?: boolean } = {}
+): Promise<EnvironmentHealth> {
+  const cache = getCache()
+  const cached = cache.get(environment.name)
+  if (!force && cached && Date.now() - new Date(cached.checkedAt).getTime() < CACHE_TTL_MS) {
+    return cached
+  }
+
+  const probes: Promise<EndpointHealth>[] = [probeEndpoint('target', environment.baseUrl)]
+  if (environment.authStrategy === 'setup') {
+    probes.push(probeEndpoint('hub', getHubUrl(environment)))
+    probes.push(probeEndpoint('api', getApiBaseUrl(environment)))
+  }
+  const endpoints = await Promise.all(probes)
+
+  const health: EnvironmentHealth = {
+    environment: environment.name,
+    status: getOverallStatus(endpoints),
+    checkedAt: new Date().toISOString(),
+    endpoints,
+  }
+  cache.set(environment.name, health)
+  return health
+}
@@ -0,0 +1,211 @@
+import path from 'path'
+import fs from 'fs'
+import { getDataDir } from './run-store'
+import type { AuthStrategy, EnvironmentTarget, EnvironmentsResponse } from './types'
+
+const ENVIRONMENT_NAME_PATTERN = /^[a-z0-9][a-z0-9-]{0,31}$/
+const CONFIG_FILE_PATTERN = /^playwright(\.[\w-]+)?\.config\.ts$/
+const ENV_KEY_PATTERN = /^[A-Z_][A-Z0-9_]*$/
+// Variables that change how Node and Playwright themselves run, or that the
+// executor sets for the reporter, rather than configure the tests
+const RESERVED_ENV_KEY_PATTERN = /^(PATH|HOME|SHELL|NODE_\w*|NPM_CONFIG_\w*|LD_\w*|DYLD_\w*|PLAYWRIGHT_\w*|E2E_EVENTS_\w*)$/
+const AUTH_STRATEGIES: AuthStrategy[] = ['setup', 'none']
+
+// Same fallbacks as the auth setup files
+const DEFAULT_HUB_URL = 'https://hub-dev.gloground.com'
+const DEFAULT_API_BASE_URL = 'https://api-enough-dev.gloground.com'
+
+function isHttpUrl(value: unknown): boolean {
+  try {
+    const url = new URL(String(value))
+    return url.protocol === 'http:' || url.protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+function getBuiltInEnvironments(): EnvironmentTarget[] {
+  return [
+    {
+      name: 'local',
+      label: 'Local',
+      baseUrl: 'http://localhost:3001',
+      configFile: 'playwright.config.ts',
+      authStrategy: 'setup',
+      builtIn: true,
+    },
+    {
+      name: 'staging',
+      label: 'Staging',
+      baseUrl: process.env.NEXT_PUBLIC_E2E_STAGING_URL || 'https://gloz-dev.gloground.com',
+      configFile: 'playwright.staging.config.ts',
+      authStrategy: 'setup',
+      builtIn: true,
+    },
+    {
+      name: 'hub',
+      label: 'Hub',
+      baseUrl: process.env.NEXT_PUBLIC_E2E_HUB_URL || 'http://localhost:3000',
+      configFile: 'playwright.hub.config.ts',
+      authStrategy: 'setup',
+      builtIn: true,
+    },
+  ]
+}
+
+/**
+ * Custom targets live in environments.json in the data dir. The file can be
+ * edited by hand or through /api/e2e/environments.
+ */
+function getEnvironmentsFile(): string {
+  return path.join(getDataDir(), 'environments.json')
+}
+
+function loadCustomEnvironments(): EnvironmentTarget[] {
+  try {
+    const content = JSON.parse(fs.readFileSync(getEnvironmentsFile(), 'utf-8'))
+    if (!Array.isArray(content)) return []
+    return (content as EnvironmentTarget[]).filter(target => {
+      const error = validateEnvironment(target)
+      if (error) console.error(`[Environments] Skipping environment "${target?.name}": ${error}`)
+      return !error
+    })
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('[Environments] Failed to load environments:', error)
+    }
+    return []
+  }
+}
+
+function saveCustomEnvironments(targets: EnvironmentTarget[]): void {
+  const file = getEnvironmentsFile()
+  fs.mkdirSync(path.dirname(file), { recursive: true })
+  const tmp = `${file}.${process.pid}.tmp`
+  fs.writeFileSync(tmp, JSON.stringify(targets, null, 2))
+  fs.renameSync(tmp, file)
+}
+
+export function listEnvironments(): EnvironmentTarget[] {
+  const builtIn = getBuiltInEnvironments()
+  const builtInNames = new Set(builtIn.map(target => target.name))
+  return [
+    ...builtIn,
+    ...loadCustomEnvironments().filter(target => !builtInNames.has(target.name)),
+  ]
+}
+
+export function getEnvironment(name: string): EnvironmentTarget | undefined {
+  return listEnvironments().find(target => target.name === name)
+}
+
+export function getHubUrl(environment: EnvironmentTarget): string {
+  return environment.hubUrl || process.env.NEXT_PUBLIC_HUB_URL || DEFAULT_HUB_URL
+}
+
+export function getApiBaseUrl(environment: EnvironmentTarget): string {
+  return environment.apiBaseUrl || process.env.API_BASE_URL || DEFAULT_API_BASE_URL
+}
+
+/**
+ * Replace env override values with their names for users who can't manage
+ * environments; they can hold tokens for the target.
+ */
+export function redactEnvironment({ env, ...target }: EnvironmentTarget): EnvironmentsResponse['environments'][number] {
+  return env ? { ...target, envKeys: Object.keys(env) } : target
+}
+
+/**
+ * Check an environment definition. Returns an error message, or null if valid.
+ */
+export function validateEnvironment(input: unknown): string | null {
+  if (!input || typeof input !== 'object') {
+    return 'Environment must be an object'
+  }
+  const target = input as Partial<EnvironmentTarget>
+
+  if (typeof target.name !== 'string' || !ENVIRONMENT_NAME_PATTERN.test(target.name)) {
+    return 'Invalid name. Use up to 32 lowercase letters, digits and dashes'
+  }
+  if (target.label !== undefined && typeof target.label !== 'string') {
+    return 'Invalid label. Must be a string'
+  }
+
+  if (!isHttpUrl(target.baseUrl)) {
+    return 'Invalid baseUrl. Must be an http(s) URL'
+  }
+  if (target.hubUrl !== undefined && !isHttpUrl(target.hubUrl)) {
+    return 'Invalid hubUrl. Must be an http(s) URL'
+  }
+  if (target.apiBaseUrl !== undefined && !isHttpUrl(target.apiBaseUrl)) {
+    return 'Invalid apiBaseUrl. Must be an http(s) URL'
+  }
+  if (target.blockWhenUnhealthy !== undefined && typeof target.blockWhenUnhealthy !== 'boolean') {
+    return 'Invalid blockWhenUnhealthy. Must be a boolean'
+  }
+
+  if (typeof target.configFile !== 'string' || !CONFIG_FILE_PATTERN.test(target.configFile)) {
+    return 'Invalid configFile. Must be a playwright[.<name>].config.ts file in the project root'
+  }
+
+  if (target.env !== undefined) {
+    if (typeof target.env !== 'object' || target.env === null || Array.isArray(target.env)) {
+      return 'Invalid env. Must be an object of string values'
+    }
+    for (const [key, value] of Object.entries(target.env)) {
+      if (!ENV_KEY_PATTERN.test(key) || typeof value !== 'string') {
+        return `Invalid env entry "${key}". Keys must be upper-case variable names and values strings`
+      }
+      if (RESERVED_ENV_KEY_PATTERN.test(key)) {
+        return `Invalid env entry "${key}". It controls the test process and can't be overridden`
+      }
+    }
+  }
+
+  if (!target.authStrategy || !AUTH_STRATEGIES.includes(target.authStrategy)) {
+    return `Invalid authStrategy. Must be one of: ${AUTH_STRATEGIES.join(', ')}`
+  }
+
+  return null
+}
+
+/**
+ * Create or replace a custom environment. Built-in targets can't be replaced.
+ */
+export function saveEnvironment(input: EnvironmentTarget): EnvironmentTarget {
+  if (getBuiltInEnvironments().some(target => target.name === input.name)) {
+    throw new Error(`Environment "${input.name}" is built in and cannot be changed`)
+  }
+
+  const target: EnvironmentTarget = {
+    name: input.name,
+    label: input.label,
+    baseUrl: input.baseUrl,
+    configFile: input.configFile,
+    env: input.env,
+    authStrategy: input.authStrategy,
+    hubUrl: input.hubUrl,
+    apiBaseUrl: input.apiBaseUrl,
+    blockWhenUnhealthy: input.blockWhenUnhealthy,
+  }
+
+  const custom = loadCustomEnvironments().filter(existing => existing.name !== target.name)
+  saveCustomEnvironments([...custom, target])
+  return target
+}
+
+/**
+ * Remove a custom environment. Returns false if it doesn't exist.
+ */
+export function removeEnvironment(name: string): boolean {
+  if (getBuiltInEnvironments().some(target => target.name === name)) {
+    throw new Error(`Environment "${name}" is built in and cannot be removed`)
+  }
+
+  const custom = loadCustomEnvironments()
+  const remaining = custom.filter(target => target.name !== name)
+  if (remaining.length === custom.length) return false
+
+  saveCustomEnvironments(remaining)
+  return true
+}
@@ -0,0 +1,81 @@
+import type { FlakyTestStats, TestRun, TestScenarioStatus } from './types'
+
+interface ScenarioOutcome {
+  status: TestScenarioStatus
+  retries: number
+  runAt: string
+}
+
+interface ScenarioHistory {
+  name: string
+  file: string
+  outcomes: ScenarioOutcome[]
+}
+
+/**
+ * Aggregate per-scenario outcomes across finished runs.
+ *
+ * Only passed/failed outcomes count; skipped and unfinished scenarios say
+ * nothing about flakiness. Scenarios that never flipped or needed a retry
+ * (always passing, or always failing) are left out.
+ */
+export function analyzeFlakiness(runs: TestRun[]): FlakyTestStats[] {
+  const histories = new Map<string, ScenarioHistory>()
+
+  const ordered = runs
+    .filter(run => run.results?.scenarios.length)
+    .sort((a, b) => new Date(a.startedAt).getTime() - new Date(b.startedAt).getTime())
+
+  for (const run of ordered) {
+    for (const scenario of run.results!.scenarios) {
+      if (scenario.status !== 'passed' && scenario.status !== 'failed') continue
+
+      let history = histories.get(scenario.id)
+      if (!history) {
+        history = { name: scenario.name, file: scenario.file, outcomes: [] }
+        histories.set(scenario.id, history)
+      }
+      history.outcomes.push({
+        status: scenario.status,
+        retries: scenario.retries ?? 0,
+        runAt: run.startedAt,
+      })
+    }
+  }
+
+  const stats: FlakyTestStats[] = []
+  for (const [scenarioId, history] of histories) {
+    const { outcomes } = history
+    const passed = outcomes.filter(o => o.status === 'passed').length
+    const failed = outcomes.length - passed
+    const passedOnRetry = outcomes.filter(o => o.status === 'passed' && o.retries > 0).length
+
+    let flips = 0
+    for (let i = 1; i < outcomes.length; i++) {
+      if (outcomes[i].status !== outcomes[i - 1].status) flips++
+    }
+
+    if (flips === 0 && passedOnRetry === 0) continue
+
+    const flipRate = outcomes.length > 1 ? flips / (outcomes.length - 1) : 0
+    const last = outcomes[outcomes.length - 1]
+
+    stats.push({
+      scenarioId,
+      name: history.name,
+      file: history.file,
+      runs: outcomes.length,
+      passed,
+      failed,
+      passRate: passed / outcomes.length,
+      passedOnRetry,
+      flips,
+      flipRate,
+      score: flipRate * 0.6 + (passedOnRetry / outcomes.length) * 0.4,
+      lastStatus: last.status,
+      lastRunAt: last.runAt,
+    })
+  }
+
+  return stats.sort((a, b) => b.score - a.score || a.passRate - b.passRate)
+}
@@ -0,0 +1,44 @@
+import { stripAnsi } from '../../../../src/lib/ansi'
+import type { IndexedLogEntry, LogEntry, RunLogsQuery, RunLogsResponse, TestRun, TestScenario } from './types'
+
+export const LOG_TYPES: LogEntry['type'][] = ['stdout', 'stderr', 'info', 'error']
+export const DEFAULT_LOG_PAGE_SIZE = 500
+export const MAX_LOG_PAGE_SIZE = 2000
+
+export function findScenario(run: TestRun, scenarioId: string): TestScenario | undefined {
+  const scenarios = run.results?.scenarios?.length ? run.results.scenarios : run.scenarios
+  return scenarios.find(scenario => scenario.id === scenarioId)
+}
+
+/**
+ * Filter a run's full log and return one page of matches, each with its
+ * position in the full log so clients can page around it.
+ */
+export function searchLogs(run: TestRun, query: RunLogsQuery): RunLogsResponse {
+  const text = query.q?.toLowerCase()
+  const types = query.type && query.type.length > 0 ? new Set(query.type) : null
+  // Runs from before output was tagged with its test only have lines naming the test
+  const isTagged = run.logs.some(log => log.scenarioId)
+  const scenarioName = query.scenario && !isTagged ? findScenario(run, query.scenario)?.name ?? null : undefined
+  const offset = query.offset ?? 0
+  const limit = query.limit ?? DEFAULT_LOG_PAGE_SIZE
+
+  const matching: IndexedLogEntry[] = []
+  run.logs.forEach((log, index) => {
+    if (types && !types.has(log.type)) return
+    if (scenarioName === null) return
+    if (query.scenario && isTagged && log.scenarioId !== query.scenario) return
+    const content = text || scenarioName ? stripAnsi(log.content) : log.content
+    if (scenarioName && !content.includes(scenarioName)) return
+    if (text && !content.toLowerCase().includes(text)) return
+    matching.push({ ...log, index })
+  })
+
+  return {
+    runId: run.runId,
+    total: matching.length,
+    offset,
+    limit,
+    logs: matching.slice(offset, offset + limit),
+  }
+}
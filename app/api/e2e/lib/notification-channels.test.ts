@@ -0,0 +1,45 @@
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { listChannels, removeChannel, saveChannel } from './notification-channels'
+
+let dataDir: string
+
+before(() => {
+  dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'e2e-channels-'))
+  process.env.E2E_DATA_DIR = dataDir
+})
+
+after(() => {
+  fs.rmSync(dataDir, { recursive: true, force: true })
+})
+
+function readFile(): unknown[] {
+  return JSON.parse(fs.readFileSync(path.join(dataDir, 'notifications.json'), 'utf-8'))
+}
+
+describe('notification channels', () => {
+  it('keeps invalid entries in the file when saving another channel', () => {
+    const invalid = { name: 'typo', type: 'webhook', rule: 'sometimes', url: 'https://hooks.example.com/a' }
+    fs.writeFileSync(path.join(dataDir, 'notifications.json'), JSON.stringify([invalid]))
+
+    assert.deepEqual(listChannels(), [])
+
+    saveChannel({ name: 'ci', type: 'webhook', rule: 'always', enabled: true, url: 'https://hooks.example.com/b' })
+
+    assert.deepEqual(listChannels().map(channel => channel.name), ['ci'])
+    assert.deepEqual(readFile()[0], invalid)
+
+    assert.equal(removeChannel('typo'), true)
+    assert.deepEqual(readFile().map(entry => (entry as { name: string }).name), ['ci'])
+  })
+
+  it('refuses to save over a file it cannot parse', () => {
+    fs.writeFileSync(path.join(dataDir, 'notifications.json'), '[{ "name": ')
+
+    assert.throws(() => saveChannel({ name: 'ci', type: 'slack', rule: 'always', enabled: true, url: 'https://hooks.slack.com/x' }))
+    assert.equal(fs.readFileSync(path.join(dataDir, 'notifications.json'), 'utf-8'), '[{ "name": ')
+  })
+})
@@ -0,0 +1,162 @@
+import path from 'path'
+import fs from 'fs'
+import { getDataDir } from './run-store'
+import type { NotificationChannel, NotificationChannelsResponse, NotificationChannelType, NotificationRule } from './types'
+
+const CHANNEL_NAME_PATTERN = /^[a-z0-9][a-z0-9-]{0,31}$/
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+$/
+const CHANNEL_TYPES: NotificationChannelType[] = ['webhook', 'slack', 'email']
+const NOTIFICATION_RULES: NotificationRule[] = ['always', 'failure', 'status-change']
+
+/**
+ * Channels live in notifications.json in the data dir. The file can be
+ * edited by hand or through /api/e2e/notifications.
+ */
+function getChannelsFile(): string {
+  return path.join(getDataDir(), 'notifications.json')
+}
+
+/**
+ * The entries as stored, including any that fail validation. Throws if the
+ * file exists but can't be read, so a save never replaces what it couldn't parse.
+ */
+function readChannelEntries(): unknown[] {
+  try {
+    const content = JSON.parse(fs.readFileSync(getChannelsFile(), 'utf-8'))
+    if (!Array.isArray(content)) throw new Error('notifications.json must contain an array')
+    return content
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+    throw error
+  }
+}
+
+function getEntryName(entry: unknown): unknown {
+  return entry && typeof entry === 'object' ? (entry as { name?: unknown }).name : undefined
+}
+
+function loadChannels(): NotificationChannel[] {
+  let entries: unknown[]
+  try {
+    entries = readChannelEntries()
+  } catch (error) {
+    console.error('[Notifications] Failed to load channels:', error)
+    return []
+  }
+
+  // Invalid entries are skipped here but stay in the file until fixed or removed
+  return entries.flatMap(entry => {
+    const error = validateChannel(entry)
+    if (error) {
+      console.error(`[Notifications] Skipping channel "${getEntryName(entry)}": ${error}`)
+      return []
+    }
+    const channel = entry as NotificationChannel
+    return [{ ...channel, enabled: channel.enabled ?? true }]
+  })
+}
+
+function saveChannelEntries(entries: unknown[]): void {
+  const file = getChannelsFile()
+  fs.mkdirSync(path.dirname(file), { recursive: true })
+  const tmp = `${file}.${process.pid}.tmp`
+  fs.writeFileSync(tmp, JSON.stringify(entries, null, 2))
+  fs.renameSync(tmp, file)
+}
+
+export function listChannels(): NotificationChannel[] {
+  return loadChannels()
+}
+
+export function getChannel(name: string): NotificationChannel | undefined {
+  return loadChannels().find(channel => channel.name === name)
+}
+
+/**
+ * Strip the webhook secret before a channel leaves the server.
+ */
+export function redactChannel({ secret, ...channel }: NotificationChannel): NotificationChannelsResponse['channels'][number] {
+  return channel.type === 'webhook' ? { ...channel, hasSecret: !!secret } : channel
+}
+
+/**
+ * Check a channel definition. Returns an error message, or null if valid.
+ */
+export function validateChannel(input: unknown): string | null {
+  if (!input || typeof input !== 'object') {
+    return 'Channel must be an object'
+  }
+  const channel = input as Partial<NotificationChannel>
+
+  if (typeof channel.name !== 'string' || !CHANNEL_NAME_PATTERN.test(channel.name)) {
+    return 'Invalid name. Use up to 32 lowercase letters, digits and dashes'
+  }
+  if (!channel.type || !CHANNEL_TYPES.includes(channel.type)) {
+    return `Invalid type. Must be one of: ${CHANNEL_TYPES.join(', ')}`
+  }
+  if (!channel.rule || !NOTIFICATION_RULES.includes(channel.rule)) {
+    return `Invalid rule. Must be one of: ${NOTIFICATION_RULES.join(', ')}`
+  }
+  if (channel.enabled !== undefined && typeof channel.enabled !== 'boolean') {
+    return 'Invalid enabled. Must be a boolean'
+  }
+
+  if (channel.type === 'email') {
+    if (!Array.isArray(channel.to) || channel.to.length === 0 ||
+      channel.to.some(address => typeof address !== 'string' || !EMAIL_PATTERN.test(address))) {
+      return 'Invalid to. Email channels need a list of recipient addresses'
+    }
+  } else {
+    try {
+      const url = new URL(String(channel.url))
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error()
+    } catch {
+      return 'Invalid url. Must be an http(s) URL'
+    }
+  }
+
+  if (channel.secret !== undefined && typeof channel.secret !== 'string') {
+    return 'Invalid secret. Must be a string'
+  }
+  if (channel.configs !== undefined &&
+    (!Array.isArray(channel.configs) || channel.configs.some(config => typeof config !== 'string'))) {
+    return 'Invalid configs. Must be a list of environment names'
+  }
+
+  return null
+}
+
+/**
+ * Create or replace a channel. Leaving out the secret keeps the stored one,
+ * since listing channels never returns it.
+ */
+export function saveChannel(input: NotificationChannel): NotificationChannel {
+  const entries = readChannelEntries()
+  const existing = loadChannels().find(channel => channel.name === input.name)
+
+  const channel: NotificationChannel = {
+    name: input.name,
+    type: input.type,
+    rule: input.rule,
+    enabled: input.enabled ?? true,
+    url: input.type === 'email' ? undefined : input.url,
+    secret: input.type === 'webhook' ? input.secret ?? existing?.secret : undefined,
+    to: input.type === 'email' ? input.to : undefined,
+    configs: input.configs,
+  }
+
+  saveChannelEntries([...entries.filter(entry => getEntryName(entry) !== channel.name), channel])
+  return channel
+}
+
+/**
+ * Remove a channel, valid or not. Returns false if it doesn't exist.
+ */
+export function removeChannel(name: string): boolean {
+  const entries = readChannelEntries()
+  const remaining = entries.filter(entry => getEntryName(entry) !== name)
+  if (remaining.length === entries.length) return false
+
+  saveChannelEntries(remaining)
+  return true
+}
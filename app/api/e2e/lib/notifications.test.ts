@@ -0,0 +1,152 @@
+import { after, before, beforeEach, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import crypto from 'crypto'
+import http from 'http'
+import type { AddressInfo } from 'net'
+import type { NotificationChannel, TestRun } from './types'
+
+type NotificationsModule = typeof import('./notifications')
+let notifications: NotificationsModule
+
+interface ReceivedRequest {
+  method?: string
+  url?: string
+  headers: http.IncomingHttpHeaders
+  body: string
+}
+
+// Stands in for the webhook receiver and Slack
+let server: http.Server
+let baseUrl: string
+let received: ReceivedRequest[] = []
+
+// The manager is created on import, so the store must be chosen first
+before(async () => {
+  process.env.E2E_RUN_STORE = 'memory'
+  notifications = await import('./notifications')
+
+  server = http.createServer((request, response) => {
+    let body = ''
+    request.setEncoding('utf-8')
+    request.on('data', chunk => (body += chunk))
+    request.on('end', () => {
+      received.push({ method: request.method, url: request.url, headers: request.headers, body })
+      response.statusCode = request.url === '/broken' ? 500 : 204
+      response.end()
+    })
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+after(async () => {
+  await new Promise(resolve => server.close(resolve))
+})
+
+beforeEach(() => {
+  received = []
+  delete process.env.E2E_DASHBOARD_URL
+})
+
+function createRun(overrides: Partial<TestRun> = {}): TestRun {
+  return {
+    runId: 'run-1',
+    status: 'failed',
+    category: 'auth',
+    config: 'local',
+    startedAt: '2026-01-01T00:00:00.000Z',
+    completedAt: '2026-01-01T00:01:00.000Z',
+    progress: { passed: 1, failed: 1, pending: 0, total: 2 },
+    reportUrl: '/api/e2e/reports/run-1/index.html',
+    logs: [],
+    scenarios: [],
+    ...overrides,
+  }
+}
+
+function createChannel(overrides: Partial<NotificationChannel> = {}): NotificationChannel {
+  return {
+    name: 'ci',
+    type: 'webhook',
+    rule: 'always',
+    enabled: true,
+    url: `${baseUrl}/hooks/e2e`,
+    ...overrides,
+  }
+}
+
+describe('sendNotification', () => {
+  it('signs webhook bodies with HMAC-SHA256 of the secret', async () => {
+    const payload = notifications.buildRunPayload(createRun())
+    await notifications.sendNotification(createChannel({ secret: 's3cret' }), payload)
+
+    assert.equal(received.length, 1)
+    const [request] = received
+    const expected = crypto.createHmac('sha256', 's3cret').update(request.body).digest('hex')
+
+    assert.equal(request.method, 'POST')
+    assert.equal(request.url, '/hooks/e2e')
+    assert.equal(request.headers['content-type'], 'application/json')
+    assert.equal(request.headers['x-e2e-signature'], `sha256=${expected}`)
+    assert.equal(request.headers['x-e2e-event'], 'run.finished')
+    assert.deepEqual(JSON.parse(request.body), JSON.parse(JSON.stringify(payload)))
+  })
+
+  it('sends no signature without a secret', async () => {
+    await notifications.sendNotification(createChannel(), notifications.buildRunPayload(createRun()))
+
+    assert.equal(received[0].headers['x-e2e-signature'], undefined)
+  })
+
+  it('posts a Slack message linking to the run on the dashboard', async () => {
+    process.env.E2E_DASHBOARD_URL = 'https://e2e.example.com/'
+    const channel = createChannel({ type: 'slack', url: `${baseUrl}/services/T000/B000` })
+    await notifications.sendNotification(channel, notifications.buildRunPayload(createRun()))
+
+    assert.equal(received[0].url, '/services/T000/B000')
+    const message = JSON.parse(received[0].body)
+    assert.match(message.text, /^E2E auth on local failed: 1 passed, 1 failed/)
+    const links = message.blocks[1].elements[0].text
+    assert.match(links, /<https:\/\/e2e\.example\.com\/runs\/run-1\|Open run>/)
+    assert.match(links, /<https:\/\/e2e\.example\.com\/api\/e2e\/reports\/run-1\/index\.html\|HTML report>/)
+  })
+
+  it('leaves out links without a dashboard URL', async () => {
+    const channel = createChannel({ type: 'slack', url: `${baseUrl}/services/T000/B000` })
+    await notifications.sendNotification(channel, notifications.buildRunPayload(createRun()))
+
+    const message = JSON.parse(received[0].body)
+    assert.equal(message.blocks.length, 1)
+  })
+
+  it('fails when the receiver responds with an error', async () => {
+    await assert.rejects(
+      notifications.sendNotification(createChannel({ url: `${baseUrl}/broken` }), notifications.buildRunPayload(createRun())),
+      /responded with 500/
+    )
+  })
+})
+
+describe('shouldNotify', () => {
+  it('matches failures only for the failure rule', () => {
+    const channel = createChannel({ rule: 'failure' })
+    assert.equal(notifications.shouldNotify(channel, createRun({ status: 'failed' })), true)
+    assert.equal(notifications.shouldNotify(channel, createRun({ status: 'completed' })), false)
+    assert.equal(notifications.shouldNotify(channel, createRun({ status: 'cancelled' })), false)
+  })
+
+  it('matches a status change, counting the first run as one', () => {
+    const channel = createChannel({ rule: 'status-change' })
+    assert.equal(notifications.shouldNotify(channel, createRun({ status: 'completed' }), 'failed'), true)
+    assert.equal(notifications.shouldNotify(channel, createRun({ status: 'completed' }), 'completed'), false)
+    assert.equal(notifications.shouldNotify(channel, createRun({ status: 'completed' })), true)
+    assert.equal(notifications.shouldNotify(channel, createRun({ status: 'cancelled' }), 'completed'), false)
+  })
+
+  it('skips disabled channels and other environments', () => {
+    const run = createRun()
+    assert.equal(notifications.shouldNotify(createChannel({ enabled: false }), run), false)
+    assert.equal(notifications.shouldNotify(createChannel({ configs: ['staging'] }), run), false)
+    assert.equal(notifications.shouldNotify(createChannel({ configs: ['staging', 'local'] }), run), true)
+  })
+})
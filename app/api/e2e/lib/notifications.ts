@@ -0,0 +1,222 @@
+import crypto from 'crypto'
+import { testRunManager } from './test-run-manager'
+import { listChannels } from './notification-channels'
+import { sendMail } from './smtp'
+import type { NotificationChannel, RunNotificationPayload, TestRun, TestStatus } from './types'
+
+const DELIVERY_TIMEOUT_MS = 10 * 1000
+// Failed scenarios listed in a notification; the rest are summarised
+const MAX_FAILED_SCENARIOS = 10
+const MAX_ERROR_LENGTH = 300
+
+const globalForNotifications = globalThis as unknown as {
+  warnedMissingDashboardUrl: boolean | undefined
+}
+
+const STATUS_EMOJI: Record<TestStatus, string> = {
+  queued: ':hourglass:',
+  running: ':arrow_forward:',
+  completed: ':white_check_mark:',
+  failed: ':x:',
+  cancelled: ':no_entry_sign:',
+}
+
+/**
+ * Status of the finished run before this one with the same category and environment.
+ * Cancelled runs are skipped since they say nothing about the target.
+ */
+function getPreviousStatus(run: TestRun): TestStatus | undefined {
+  const { runs } = testRunManager.queryHistory({
+    category: run.category,
+    config: run.config,
+    to: run.startedAt,
+    limit: 50,
+  })
+  return runs.find(previous =>
+    previous.runId !== run.runId && ['completed', 'failed'].includes(previous.status)
+  )?.status
+}
+
+/**
+ * Whether a channel's rule and environment filter match a finished run.
+ */
+export function shouldNotify(channel: NotificationChannel, run: TestRun, previousStatus?: TestStatus): boolean {
+  if (!channel.enabled) return false
+  if (channel.configs && channel.configs.length > 0 && !channel.configs.includes(run.config)) return false
+
+  switch (channel.rule) {
+    case 'always':
+      return true
+    case 'failure':
+      return run.status === 'failed'
+    case 'status-change':
+      // The first run of a category/environment counts as a change
+      return run.status !== 'cancelled' && run.status !== previousStatus
+  }
+}
+
+export function getRunUrl(runId: string): string | undefined {
+  const baseUrl = process.env.E2E_DASHBOARD_URL
+  return baseUrl ? `${baseUrl.replace(/\/$/, '')}/runs/${runId}` : undefined
+}
+
+function getReportUrl(run: TestRun): string | undefined {
+  const baseUrl = process.env.E2E_DASHBOARD_URL
+  if (!run.reportUrl || !run.reportUrl.startsWith('/')) return run.reportUrl
+  // A path on the dashboard leads nowhere from Slack or a mail client
+  return baseUrl ? `${baseUrl.replace(/\/$/, '')}${run.reportUrl}` : undefined
+}
+
+export function buildRunPayload(run: TestRun, previousStatus?: TestStatus): RunNotificationPayload {
+  const scenarios = run.results?.scenarios?.length ? run.results.scenarios : run.scenarios
+  return {
+    event: 'run.finished',
+    run: {
+      runId: run.runId,
+      status: run.status,
+      category: run.category,
+      config: run.config,
+      triggeredBy: run.triggeredBy,
+      startedAt: run.startedAt,
+      completedAt: run.completedAt,
+      passed: run.results?.passed ?? run.progress.passed,
+      failed: run.results?.failed ?? run.progress.failed,
+      skipped: run.results?.skipped ?? 0,
+      duration: run.results?.duration,
+      url: getRunUrl(run.runId),
+      reportUrl: getReportUrl(run),
+    },
+    previousStatus,
+    failedScenarios: scenarios
+      .filter(scenario => scenario.status === 'failed')
+      .map(scenario => ({
+        name: scenario.name,
+        file: scenario.file,
+        error: scenario.error?.slice(0, MAX_ERROR_LENGTH),
+      })),
+  }
+}
+
+function describeRun(payload: RunNotificationPayload): string {
+  const { run } = payload
+  return `E2E ${run.category} on ${run.config} ${run.status}: ${run.passed} passed, ${run.failed} failed, ${run.skipped} skipped`
+}
+
+function formatFailedList(payload: RunNotificationPayload, format: (name: string, file: string) => string): string[] {
+  const listed = payload.failedScenarios.slice(0, MAX_FAILED_SCENARIOS).map(s => format(s.name, s.file))
+  const remaining = payload.failedScenarios.length - listed.length
+  return remaining > 0 ? [...listed, `...and ${remaining} more`] : listed
+}
+
+function buildSlackMessage(payload: RunNotificationPayload): Record<string, unknown> {
+  const { run } = payload
+  const lines = [`${STATUS_EMOJI[run.status]} *${describeRun(payload)}*`]
+  if (payload.previousStatus && payload.previousStatus !== run.status) {
+    lines.push(`Previous run: ${payload.previousStatus}`)
+  }
+  lines.push(...formatFailedList(payload, (name, file) => `• ${name} (\`${file}\`)`))
+
+  const links = [
+    run.url && `<${run.url}|Open run>`,
+    run.reportUrl && `<${run.reportUrl}|HTML report>`,
+  ].filter(Boolean)
+
+  return {
+    // Fallback for clients that don't render blocks
+    text: describeRun(payload),
+    blocks: [
+      { type: 'section', text: { type: 'mrkdwn', text: lines.join('\n') } },
+      ...(links.length > 0 ? [{ type: 'context', elements: [{ type: 'mrkdwn', text: links.join(' · ') }] }] : []),
+    ],
+  }
+}
+
+function buildEmailText(payload: RunNotificationPayload): string {
+  const { run } = payload
+  const lines = [
+    describeRun(payload),
+    '',
+    `Run: ${run.runId}`,
+    `Started: ${run.startedAt}`,
+    ...(run.completedAt ? [`Finished: ${run.completedAt}`] : []),
+    ...(run.triggeredBy ? [`Triggered by: ${run.triggeredBy}`] : []),
+    ...(payload.previousStatus ? [`Previous run: ${payload.previousStatus}`] : []),
+    ...(run.url ? [`Details: ${run.url}`] : []),
+    ...(run.reportUrl ? [`Report: ${run.reportUrl}`] : []),
+  ]
+  if (payload.failedScenarios.length > 0) {
+    lines.push('', 'Failed tests:', ...formatFailedList(payload, (name, file) => `- ${name} (${file})`))
+  }
+  return lines.join('\n')
+}
+
+async function postJson(url: string, body: string, headers: Record<string, string> = {}): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body,
+    signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+  })
+  if (!response.ok) {
+    throw new Error(`${url} responded with ${response.status}`)
+  }
+}
+
+/**
+ * Deliver a payload to one channel. Throws when delivery fails.
+ */
+export async function sendNotification(channel: NotificationChannel, payload: RunNotificationPayload): Promise<void> {
+  switch (channel.type) {
+    case 'webhook': {
+      const body = JSON.stringify(payload)
+      const headers: Record<string, string> = { 'X-E2E-Event': payload.event }
+      if (channel.secret) {
+        // Receivers recompute HMAC-SHA256 over the raw body with the shared secret
+        const signature = crypto.createHmac('sha256', channel.secret).update(body).digest('hex')
+        headers['X-E2E-Signature'] = `sha256=${signature}`
+      }
+      await postJson(channel.url!, body, headers)
+      return
+    }
+    case 'slack':
+      await postJson(channel.url!, JSON.stringify(buildSlackMessage(payload)))
+      return
+    case 'email':
+      await sendMail({
+        to: channel.to ?? [],
+        subject: `[E2E] ${payload.run.status.toUpperCase()}: ${payload.run.category} on ${payload.run.config}`,
+        text: buildEmailText(payload),
+      })
+      return
+  }
+}
+
+/**
+ * Notify every channel whose rule matches the finished run.
+ * Delivery failures are logged to the run and never affect its result.
+ */
+export async function notifyRunFinished(run: TestRun): Promise<void> {
+  const channels = listChannels().filter(channel => channel.enabled)
+  if (channels.length === 0) return
+
+  const previousStatus = getPreviousStatus(run)
+  const payload = buildRunPayload(run, previousStatus)
+  if (!process.env.E2E_DASHBOARD_URL && !globalForNotifications.warnedMissingDashboardUrl) {
+    globalForNotifications.warnedMissingDashboardUrl = true
+    console.warn('[Notifications] E2E_DASHBOARD_URL is not set; notifications are sent without links to the run or report')
+  }
+
+  await Promise.all(
+    channels
+      .filter(channel => shouldNotify(channel, run, previousStatus))
+      .map(async channel => {
+        try {
+          await sendNotification(channel, payload)
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error)
+          console.error(`[Notifications] Channel "${channel.name}" failed:`, message)
+          testRunManager.addLog(run.runId, 'error', `Notification "${channel.name}" failed: ${message}`)
+        }
+      })
+  )
+}
@@ -1,38 +1,84 @@
 import { spawn, ChildProcess } from 'child_process'
 import path from 'path'
 import fs from 'fs'
-import type { TestCategory, TestConfig } from './types'
+import readline from 'readline'
+import type { Readable } from 'stream'
+import type { EnvironmentTarget, TestCategory, TestSelection } from './types'
 import { testRunManager } from './test-run-manager'
-import { OutputParser } from './output-parser'
+import { EVENT_LINE_PREFIX, ReporterEventProcessor, type ReporterAttachment } from './reporter-events'
+import {
+  getRunArtifactsDir,
+  getRunReportDir,
+  getRunBlobDir,
+  getReportUrl,
+  hasRunReport,
+  getArtifactUrl,
+} from './artifacts'
+import { getEnvironment, getHubUrl, getApiBaseUrl } from './environments'
+
+const EVENT_REPORTER_PATH = 'e2e/reporters/event-reporter.ts'
+// Extra pipe the event reporter writes NDJSON to
+const EVENTS_FD = 3
 
 // Build version for cache invalidation
 const globalForProcesses = globalThis as unknown as {
-  activePlaywrightProcesses: Map<string, ChildProcess> | undefined
+  activePlaywrightProcesses: Map<string, ChildProcess[]> | undefined
 }
 
-function getActiveProcesses(): Map<string, ChildProcess> {
+interface ShardExit {
+  shardIndex: number
+  code: number | null
+  // Set when the process was killed, by a cancel or e.g. the OOM killer
+  signal?: NodeJS.Signals | null
+  error?: Error
+}
+
+// One process per shard; unsharded runs have a single entry
+function getActiveProcesses(): Map<string, ChildProcess[]> {
   if (!globalForProcesses.activePlaywrightProcesses) {
     globalForProcesses.activePlaywrightProcesses = new Map()
   }
   return globalForProcesses.activePlaywrightProcesses
 }
 
-function getPlaywrightBinary(projectRoot: string): string {
+function readLines(stream: Readable | null | undefined, onLine: (line: string) => void): void {
+  if (!stream) return
+  readline.createInterface({ input: stream, crlfDelay: Infinity }).on('line', onLine)
+}
+
+interface PlaywrightCommand {
+  command: string
+  // Arguments that come before the Playwright subcommand
+  prefixArgs: string[]
+  // npx only hands stdin, stdout and stderr to the process it runs
+  passesExtraFds: boolean
+}
+
+function getPlaywrightCommand(projectRoot: string): PlaywrightCommand {
   // Try multiple possible locations for the playwright binary
-  const possiblePaths = [
-    path.join(projectRoot, 'node_modules', '.bin', 'playwright'),
-    '/var/task/node_modules/.bin/playwright', // Vercel serverless path
-    path.join(process.cwd(), 'node_modules', '.bin', 'playwright'),
+  const roots = [
+    projectRoot,
+    '/var/task', // Vercel serverless path
+    process.cwd(),
   ]
 
-  for (const binPath of possiblePaths) {
+  for (const root of roots) {
+    const binPath = path.join(root, 'node_modules', '.bin', 'playwright')
     if (fs.existsSync(binPath)) {
-      return binPath
+      return { command: binPath, prefixArgs: [], passesExtraFds: true }
+    }
+  }
+
+  // Without the bin link, run the CLI script with node directly
+  for (const root of roots) {
+    const cliPath = path.join(root, 'node_modules', '@playwright', 'test', 'cli.js')
+    if (fs.existsSync(cliPath)) {
+      return { command: process.execPath, prefixArgs: [cliPath], passesExtraFds: true }
     }
   }
 
   // Fallback to npx (for local development)
-  return 'npx'
+  return { command: 'npx', prefixArgs: ['playwright'], passesExtraFds: false }
 }
 
 function isVercelEnvironment(): boolean {
@@ -136,14 +182,10 @@ async function ensureBrowsersInstalled(projectRoot: string): Promise<{ success:
 
   // Install browsers to /tmp
   return new Promise((resolve) => {
-    const playwrightBin = getPlaywrightBinary(projectRoot)
-    const useNpx = playwrightBin === 'npx'
-
-    const args = useNpx
-      ? ['playwright', 'install', 'chromium']
-      : ['install', 'chromium']
+    const playwright = getPlaywrightCommand(projectRoot)
+    const args = [...playwright.prefixArgs, 'install', 'chromium']
 
-    const installProcess = spawn(playwrightBin, args, {
+    const installProcess = spawn(playwright.command, args, {
       cwd: projectRoot,
       env: {
         ...process.env,
@@ -188,23 +230,88 @@ function getTestPattern(category: TestCategory): string {
   }
 }
 
-function getConfigEnv(config: TestConfig): Record<string, string> {
-  const baseEnv: Record<string, string> = {}
-
-  switch (config) {
-    case 'staging':
-      baseEnv.PLAYWRIGHT_BASE_URL = process.env.NEXT_PUBLIC_E2E_STAGING_URL || 'https://gloz-dev.gloground.com'
-      break
-    case 'hub':
-      baseEnv.PLAYWRIGHT_BASE_URL = process.env.NEXT_PUBLIC_E2E_HUB_URL || 'http://localhost:3000'
-      break
-    case 'local':
-    default:
-      baseEnv.PLAYWRIGHT_BASE_URL = 'http://localhost:3001'
-      break
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function toSpecPath(file: string): string {
+  return file.startsWith('e2e/') ? file : `e2e/${file}`
+}
+
+/**
+ * Translate a run's category and optional selection into Playwright CLI
+ * arguments. Test ids have the form `tests/<category>/<file>.spec.ts:<title path>`,
+ * where the title path is the describe blocks and the title joined by ' > '.
+ */
+function getSelectionArgs(category: TestCategory, selection?: TestSelection): string[] {
+  const files = new Set((selection?.files ?? []).map(toSpecPath))
+  const titles: string[] = []
+
+  for (const testId of selection?.testIds ?? []) {
+    const match = testId.match(/^(.+?\.spec\.ts):(.+)$/)
+    if (!match || !match[1] || !match[2]) continue
+    files.add(toSpecPath(match[1]))
+    // Playwright greps the full title: project, file relative to testDir,
+    // describe blocks and title, separated by spaces
+    const file = match[1].replace(/^e2e\//, '')
+    titles.push([file, ...match[2].split(' > ')].map(escapeRegExp).join(' '))
+  }
+
+  const args = files.size > 0 ? Array.from(files) : [getTestPattern(category)]
+
+  // Playwright takes a single --grep, so the title filter and the user's
+  // pattern are combined with lookaheads
+  const grepParts: string[] = []
+  if (titles.length > 0) {
+    grepParts.push(`(?:${titles.join('|')})$`)
+  }
+  if (selection?.grep) {
+    grepParts.push(selection.grep)
   }
 
-  return baseEnv
+  if (grepParts.length === 1) {
+    args.push(`--grep=${grepParts[0]}`)
+  } else if (grepParts.length > 1) {
+    args.push(`--grep=${grepParts.map(part => `(?=.*${part})`).join('')}`)
+  }
+
+  if (selection?.grepInvert) {
+    args.push(`--grep-invert=${selection.grepInvert}`)
+  }
+
+  return args
+}
+
+function getEnvironmentVariables(environment: EnvironmentTarget): Record<string, string> {
+  const variables: Record<string, string> = {
+    ...environment.env,
+    PLAYWRIGHT_BASE_URL: environment.baseUrl,
+  }
+  // Only override the auth setup's own defaults when the target sets them
+  if (environment.hubUrl) variables.NEXT_PUBLIC_HUB_URL = getHubUrl(environment)
+  if (environment.apiBaseUrl) variables.API_BASE_URL = getApiBaseUrl(environment)
+  return variables
+}
+
+function createAttachmentMapper(runId: string) {
+  const artifactsDir = getRunArtifactsDir(runId)
+
+  return (attachment: ReporterAttachment, retry: number) => {
+    if (!attachment.path) return null
+
+    // Only files inside the run's output folder can be served
+    const relativePath = path.relative(artifactsDir, attachment.path)
+    if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) return null
+
+    const normalized = relativePath.split(path.sep).join('/')
+    return {
+      name: attachment.name,
+      contentType: attachment.contentType,
+      path: normalized,
+      url: getArtifactUrl(runId, normalized),
+      retry,
+    }
+  }
 }
 
 export async function executePlaywrightTests(runId: string): Promise<void> {
@@ -213,16 +320,25 @@ export async function executePlaywrightTests(runId: string): Promise<void> {
     throw new Error(`Run ${runId} not found`)
   }
 
-  const testPattern = getTestPattern(run.category)
-  const configEnv = getConfigEnv(run.config)
-  const parser = new OutputParser()
+  const selectionArgs = getSelectionArgs(run.category, run.selection)
+  const processor = new ReporterEventProcessor(createAttachmentMapper(runId), run.shards ?? 1)
 
   const projectRoot = process.cwd()
 
   testRunManager.updateStatus(runId, 'running')
   testRunManager.addLog(runId, 'info', `Starting E2E tests for category: ${run.category}`)
-  testRunManager.addLog(runId, 'info', `Config: ${run.config}`)
-  testRunManager.addLog(runId, 'info', `Test pattern: ${testPattern}`)
+
+  // The environment may have been removed while the run was queued
+  const environment = getEnvironment(run.config)
+  if (!environment) {
+    testRunManager.addLog(runId, 'error', `Unknown environment: ${run.config}`)
+    testRunManager.updateStatus(runId, 'failed')
+    return
+  }
+  const configEnv = getEnvironmentVariables(environment)
+
+  testRunManager.addLog(runId, 'info', `Environment: ${environment.name} (${environment.baseUrl})`)
+  testRunManager.addLog(runId, 'info', `Test selection: ${selectionArgs.join(' ')}`)
 
   // Ensure browsers are installed (especially for Vercel)
   if (isVercelEnvironment()) {
@@ -245,18 +361,13 @@ export async function executePlaywrightTests(runId: string): Promise<void> {
 
   testRunManager.addLog(runId, 'info', '─'.repeat(60))
 
-  const playwrightBin = getPlaywrightBinary(projectRoot)
-  const useNpx = playwrightBin === 'npx'
+  const playwright = getPlaywrightCommand(projectRoot)
 
   // Debug: log working directory and file existence
   testRunManager.addLog(runId, 'info', `Working directory: ${projectRoot}`)
   testRunManager.addLog(runId, 'info', `CWD: ${process.cwd()}`)
 
-  const configPath = run.config === 'staging'
-    ? path.join(projectRoot, 'playwright.staging.config.ts')
-    : run.config === 'hub'
-    ? path.join(projectRoot, 'playwright.hub.config.ts')
-    : path.join(projectRoot, 'playwright.config.ts')
+  const configPath = path.join(projectRoot, environment.configFile)
 
   testRunManager.addLog(runId, 'info', `Config path: ${configPath}`)
   testRunManager.addLog(runId, 'info', `Config exists: ${fs.existsSync(configPath)}`)
@@ -269,18 +380,30 @@ export async function executePlaywrightTests(runId: string): Promise<void> {
     testRunManager.addLog(runId, 'info', `Cannot read root dir: ${e}`)
   }
 
-  const args = useNpx
-    ? ['playwright', 'test', testPattern, '--reporter=list']
-    : ['test', testPattern, '--reporter=list']
+  const shardCount = run.shards ?? 1
+  const isSharded = shardCount > 1
+  if (isSharded) {
+    testRunManager.addLog(runId, 'info', `Sharding across ${shardCount} processes`)
+  }
+
+  // list keeps the human-readable output for the terminal view. Shards can't
+  // share an HTML report folder, so each writes a blob report that is merged
+  // into one HTML report at the end. --quiet stops list from printing test
+  // output, which comes from the event reporter tagged with its test instead.
+  const eventReporter = path.join(projectRoot, EVENT_REPORTER_PATH)
+  const reporters = `--reporter=list,${isSharded ? 'blob' : 'html'},${eventReporter}`
+
+  const baseArgs = [...playwright.prefixArgs, 'test', ...selectionArgs, reporters, '--quiet']
 
-  if (run.config === 'staging') {
-    args.push('--config=playwright.staging.config.ts')
-  } else if (run.config === 'hub') {
-    args.push('--config=playwright.hub.config.ts')
+  baseArgs.push(`--config=${environment.configFile}`)
+
+  // Without a login step the setup project is skipped entirely
+  if (environment.authStrategy === 'none') {
+    baseArgs.push('--no-deps')
   }
 
-  if (run.category !== 'all') {
-    args.push('--project=chromium')
+  if (run.category !== 'all' || environment.authStrategy === 'none') {
+    baseArgs.push('--project=chromium')
   }
 
   // Environment setup for Vercel serverless
@@ -289,6 +412,9 @@ export async function executePlaywrightTests(runId: string): Promise<void> {
     ...configEnv,
     FORCE_COLOR: '1',
     CI: 'true',
+    // Each run gets its own HTML report instead of overwriting a shared folder
+    PLAYWRIGHT_HTML_OUTPUT_DIR: getRunReportDir(runId),
+    PLAYWRIGHT_HTML_OPEN: 'never',
   }
 
   // In Vercel, we need to use /tmp for writable directories
@@ -300,111 +426,241 @@ export async function executePlaywrightTests(runId: string): Promise<void> {
     execEnv.PLAYWRIGHT_SKIP_BROWSER_GC = '1'
   }
 
-  testRunManager.addLog(runId, 'info', `Using playwright: ${playwrightBin}`)
+  if (playwright.passesExtraFds) {
+    execEnv.E2E_EVENTS_FD = String(EVENTS_FD)
+  } else {
+    // The events pipe wouldn't reach the reporter, so it marks its lines in stdout instead
+    execEnv.E2E_EVENTS_STDOUT = '1'
+    testRunManager.addLog(runId, 'info', 'Playwright runs through npx; reading test events from its output')
+  }
 
-  const child = spawn(playwrightBin, args, {
-    cwd: projectRoot,
-    env: execEnv as NodeJS.ProcessEnv,
-    detached: true,
-  })
+  testRunManager.addLog(runId, 'info', `Using playwright: ${[playwright.command, ...playwright.prefixArgs].join(' ')}`)
 
-  getActiveProcesses().set(runId, child)
+  const artifactsDir = getRunArtifactsDir(runId)
+  const blobDir = getRunBlobDir(runId)
+  const children: ChildProcess[] = []
+  getActiveProcesses().set(runId, children)
 
-  child.stdout?.on('data', (data: Buffer) => {
-    const output = data.toString()
-    const lines = output.split('\n')
+  const handleEventLine = (line: string, label: string) => {
+    const event = processor.parseLine(line)
+    if (!event) return
+
+    const update = processor.handleEvent(event)
+    for (const log of update.logs ?? []) {
+      testRunManager.addLog(runId, log.type, label + log.content, {
+        scenarioId: log.scenarioId,
+        workerIndex: log.workerIndex,
+      })
+    }
+    if (update.scenario) {
+      testRunManager.updateScenario(runId, update.scenario)
+    }
+    if (update.progress) {
+      testRunManager.updateProgress(runId, update.progress)
+    }
+    if (update.result) {
+      testRunManager.setResults(runId, update.result)
+    }
+  }
 
-    for (const line of lines) {
-      if (!line.trim()) continue
+  const spawnShard = (shardIndex: number): Promise<ShardExit> => {
+    const label = isSharded ? `[shard ${shardIndex}/${shardCount}] ` : ''
+    const args = [...baseArgs]
+    const env = { ...execEnv }
+
+    // Playwright empties its output folders on start, so every shard needs its own
+    if (isSharded) {
+      const shardDir = `shard-${shardIndex}`
+      args.push(`--shard=${shardIndex}/${shardCount}`, `--output=${path.join(artifactsDir, shardDir)}`)
+      env.PLAYWRIGHT_BLOB_OUTPUT_DIR = path.join(blobDir, shardDir)
+      // Setup projects in parallel shards must not write the same storage state
+      // file. It holds session cookies, so it stays out of the served artifacts.
+      env.E2E_AUTH_DIR = path.join(blobDir, 'auth', shardDir)
+    } else {
+      args.push(`--output=${artifactsDir}`)
+    }
 
-      const parseResult = parser.parseLine(line)
-      testRunManager.addLog(runId, 'stdout', line)
+    const child = spawn(playwright.command, args, {
+      cwd: projectRoot,
+      env: env as NodeJS.ProcessEnv,
+      detached: true,
+      stdio: ['ignore', 'pipe', 'pipe', 'pipe'],
+    })
+    children.push(child)
 
-      if (parseResult.progress) {
-        testRunManager.updateProgress(runId, parseResult.progress)
+    readLines(child.stdout, (line) => {
+      if (!line.trim()) return
+      if (line.startsWith(EVENT_LINE_PREFIX)) {
+        handleEventLine(line.slice(EVENT_LINE_PREFIX.length), label)
+        return
       }
+      testRunManager.addLog(runId, 'stdout', label + line)
+    })
 
-      if (parseResult.type === 'scenario' && parseResult.scenario) {
-        testRunManager.updateScenario(runId, parseResult.scenario)
-      }
+    readLines(child.stderr, (line) => {
+      if (!line.trim()) return
+      testRunManager.addLog(runId, 'stderr', label + line)
+    })
 
-      if (parseResult.type === 'result' && parseResult.result) {
-        testRunManager.setResults(runId, parseResult.result)
-      }
+    // Scenario state comes from the event reporter, not from the list output
+    readLines(child.stdio[EVENTS_FD] as Readable | null, line => handleEventLine(line, label))
+
+    return new Promise((resolve) => {
+      let settled = false
+      child.on('close', (code, signal) => {
+        if (settled) return
+        settled = true
+        resolve({ shardIndex, code, signal })
+      })
+      child.on('error', (error) => {
+        if (settled) return
+        settled = true
+        testRunManager.addLog(runId, 'error', `${label}Failed to start tests: ${error.message}`)
+        resolve({ shardIndex, code: 1, error })
+      })
+    })
+  }
+
+  const ensureResults = () => {
+    const currentRun = testRunManager.getRun(runId)
+    if (currentRun && !currentRun.results) {
+      testRunManager.setResults(
+        runId,
+        processor.getResult(Date.now() - new Date(currentRun.startedAt).getTime())
+      )
     }
-  })
+    if (hasRunReport(runId)) {
+      testRunManager.setReportUrl(runId, getReportUrl(runId))
+    }
+  }
 
-  child.stderr?.on('data', (data: Buffer) => {
-    const output = data.toString()
-    const lines = output.split('\n')
+  const exits = await Promise.all(
+    Array.from({ length: shardCount }, (_, i) => spawnShard(i + 1))
+  )
+  getActiveProcesses().delete(runId)
 
-    for (const line of lines) {
-      if (!line.trim()) continue
-      testRunManager.addLog(runId, 'stderr', line)
+  const startError = exits.find(exit => exit.error)?.error
+  if (startError && exits.every(exit => exit.error)) {
+    testRunManager.updateStatus(runId, 'failed')
+    throw startError
+  }
+
+  testRunManager.addLog(runId, 'info', '─'.repeat(60))
+
+  // A killed process exits without a code. The cancel route marks the run
+  // cancelled before the kill lands; anything else killed it from outside
+  const killed = exits.filter(exit => exit.code === null)
+  if (killed.length > 0) {
+    fs.rmSync(blobDir, { recursive: true, force: true })
+    if (testRunManager.getRun(runId)?.status === 'cancelled') {
+      testRunManager.addLog(runId, 'info', 'Test run was cancelled')
+      return
     }
-  })
 
-  return new Promise((resolve, reject) => {
-    child.on('close', (code) => {
-      getActiveProcesses().delete(runId)
+    for (const exit of killed) {
+      const label = isSharded ? `Shard ${exit.shardIndex} ` : 'Playwright '
+      testRunManager.addLog(runId, 'error', `${label}was killed by ${exit.signal ?? 'a signal'}`)
+    }
+    ensureResults()
+    testRunManager.updateStatus(runId, 'failed')
+    return
+  }
 
-      const progress = parser.getProgress()
+  if (isSharded) {
+    await mergeShardReports(runId, playwright, execEnv)
+  }
+  ensureResults()
+
+  const failedShards = exits.filter(exit => exit.code !== 0)
+  if (failedShards.length === 0) {
+    testRunManager.addLog(runId, 'info', `✓ All tests passed!`)
+    testRunManager.updateStatus(runId, 'completed')
+  } else if (isSharded) {
+    const codes = failedShards.map(exit => `shard ${exit.shardIndex}: ${exit.code}`).join(', ')
+    testRunManager.addLog(runId, 'error', `Tests failed with exit codes (${codes})`)
+    testRunManager.updateStatus(runId, 'failed')
+  } else {
+    testRunManager.addLog(runId, 'error', `Tests failed with exit code: ${failedShards[0].code}`)
+    testRunManager.updateStatus(runId, 'failed')
+  }
+}
 
-      if (code === 0) {
-        testRunManager.addLog(runId, 'info', '─'.repeat(60))
-        testRunManager.addLog(runId, 'info', `✓ All tests passed!`)
-        testRunManager.updateStatus(runId, 'completed')
-
-        const currentRun = testRunManager.getRun(runId)
-        if (!currentRun?.results) {
-          testRunManager.setResults(runId, {
-            passed: progress.passed,
-            failed: progress.failed,
-            skipped: progress.total - progress.passed - progress.failed,
-            duration: Date.now() - new Date(currentRun!.startedAt).getTime(),
-            scenarios: parser.getScenarios(),
-          })
-        }
+/**
+ * Merge the blob reports of a sharded run into its HTML report.
+ * Blob files are collected from the per-shard folders, and the whole blob
+ * folder (including the shards' login state) is removed afterwards.
+ */
+async function mergeShardReports(
+  runId: string,
+  playwright: PlaywrightCommand,
+  execEnv: Record<string, string | undefined>
+): Promise<void> {
+  const blobDir = getRunBlobDir(runId)
+  const mergeDir = path.join(blobDir, 'merged')
 
-        resolve()
-      } else if (code === null) {
-        testRunManager.addLog(runId, 'info', '─'.repeat(60))
-        testRunManager.addLog(runId, 'info', 'Test run was cancelled')
-        testRunManager.updateStatus(runId, 'cancelled')
-        resolve()
-      } else {
-        testRunManager.addLog(runId, 'info', '─'.repeat(60))
-        testRunManager.addLog(runId, 'error', `Tests failed with exit code: ${code}`)
-        testRunManager.updateStatus(runId, 'failed')
-
-        const currentRun = testRunManager.getRun(runId)
-        if (!currentRun?.results) {
-          testRunManager.setResults(runId, {
-            passed: progress.passed,
-            failed: progress.failed,
-            skipped: progress.total - progress.passed - progress.failed,
-            duration: Date.now() - new Date(currentRun!.startedAt).getTime(),
-            scenarios: parser.getScenarios(),
-          })
+  try {
+    fs.mkdirSync(mergeDir, { recursive: true })
+    for (const entry of fs.readdirSync(blobDir)) {
+      const shardDir = path.join(blobDir, entry)
+      if (!entry.startsWith('shard-') || !fs.statSync(shardDir).isDirectory()) continue
+      for (const file of fs.readdirSync(shardDir)) {
+        if (file.endsWith('.zip')) {
+          fs.renameSync(path.join(shardDir, file), path.join(mergeDir, file))
         }
-
-        resolve()
       }
-    })
+    }
+  } catch (error) {
+    testRunManager.addLog(runId, 'error', `Failed to collect shard reports: ${error}`)
+    return
+  }
 
-    child.on('error', (error) => {
-      getActiveProcesses().delete(runId)
-      testRunManager.addLog(runId, 'error', `Failed to start tests: ${error.message}`)
-      testRunManager.updateStatus(runId, 'failed')
-      reject(error)
+  testRunManager.addLog(runId, 'info', 'Merging shard reports...')
+
+  const args = [...playwright.prefixArgs, 'merge-reports', '--reporter=html', mergeDir]
+
+  const code = await new Promise<number | null>((resolve) => {
+    const child = spawn(playwright.command, args, {
+      cwd: process.cwd(),
+      env: execEnv as NodeJS.ProcessEnv,
+      stdio: ['ignore', 'ignore', 'pipe'],
+    })
+    readLines(child.stderr, (line) => {
+      if (line.trim()) testRunManager.addLog(runId, 'stderr', line)
     })
+    child.on('close', resolve)
+    child.on('error', () => resolve(1))
   })
+
+  if (code !== 0) {
+    testRunManager.addLog(runId, 'error', `Merging shard reports failed with exit code: ${code}`)
+  }
+
+  fs.rmSync(blobDir, { recursive: true, force: true })
+}
+
+/**
+ * Start the next queued run if nothing is running. Each run triggers the
+ * next one when it ends, so the queue drains in FIFO order.
+ */
+export function processQueue(): void {
+  const run = testRunManager.startNextRun()
+  if (!run) return
+
+  executePlaywrightTests(run.runId)
+    .catch(error => {
+      console.error(`Test execution failed for run ${run.runId}:`, error)
+    })
+    .finally(() => {
+      processQueue()
+    })
 }
 
 export function cancelTest(runId: string): boolean {
   const activeProcesses = getActiveProcesses()
-  const childProcess = activeProcesses.get(runId)
-  if (childProcess) {
+  const children = activeProcesses.get(runId)
+  if (!children || children.length === 0) return false
+
+  for (const childProcess of children) {
     try {
       if (childProcess.pid) {
         process.kill(-childProcess.pid, 'SIGKILL')
@@ -414,10 +670,9 @@ export function cancelTest(runId: string): boolean {
     } catch (e) {
       childProcess.kill('SIGKILL')
     }
-    activeProcesses.delete(runId)
-    return true
   }
-  return false
+  activeProcesses.delete(runId)
+  return true
 }
 
 export function canExecuteTests(): { allowed: boolean; reason?: string } {
@@ -431,13 +686,5 @@ export function canExecuteTests(): { allowed: boolean; reason?: string } {
     }
   }
 
-  const activeRun = testRunManager.getActiveRun()
-  if (activeRun && ['queued', 'running'].includes(activeRun.status)) {
-    return {
-      allowed: false,
-      reason: `A test run is already in progress (${activeRun.runId})`,
-    }
-  }
-
   return { allowed: true }
 }
@@ -0,0 +1,264 @@
+import { stripAnsi } from '../../../../src/lib/ansi'
+import type { LogEntry, TestAttachment, TestProgress, TestResult, TestScenario, TestScenarioStatus } from './types'
+
+// NDJSON events written by e2e/reporters/event-reporter.ts, one per line
+
+// Marks event lines when the reporter has to share stdout with the list output
+export const EVENT_LINE_PREFIX = '@@e2e-event '
+
+export interface ReporterTestInfo {
+  // Scenario id in the same form as public/e2e/test-list.json (`<file>:<title>`)
+  scenarioId: string
+  title: string
+  file: string
+  line: number
+  suite: string
+  project: string
+}
+
+export interface ReporterError {
+  message?: string
+  stack?: string
+}
+
+export interface ReporterAttachment {
+  name: string
+  contentType: string
+  path?: string
+}
+
+export interface ReporterBeginEvent {
+  type: 'begin'
+  total: number
+  tests: ReporterTestInfo[]
+  workers: number
+}
+
+export interface ReporterTestBeginEvent {
+  type: 'testBegin'
+  test: ReporterTestInfo
+  retry: number
+  workerIndex: number
+}
+
+export interface ReporterTestEndEvent {
+  type: 'testEnd'
+  test: ReporterTestInfo
+  retry: number
+  workerIndex: number
+  status: 'passed' | 'failed' | 'timedOut' | 'skipped' | 'interrupted'
+  outcome: 'skipped' | 'expected' | 'unexpected' | 'flaky'
+  // False when Playwright will retry this test
+  final: boolean
+  duration: number
+  errors: ReporterError[]
+  attachments: ReporterAttachment[]
+}
+
+export interface ReporterEndEvent {
+  type: 'end'
+  status: 'passed' | 'failed' | 'timedout' | 'interrupted'
+  duration: number
+}
+
+// Console output of a worker; test is missing for output outside a test,
+// e.g. from worker fixtures
+export interface ReporterOutputEvent {
+  type: 'stdout' | 'stderr'
+  text: string
+  test?: ReporterTestInfo
+  workerIndex?: number
+}
+
+export type ReporterEvent =
+  | ReporterBeginEvent
+  | ReporterTestBeginEvent
+  | ReporterTestEndEvent
+  | ReporterEndEvent
+  | ReporterOutputEvent
+
+type AttachmentMapper = (attachment: ReporterAttachment, retry: number) => TestAttachment | null
+
+type OutputLine = Pick<LogEntry, 'type' | 'content' | 'scenarioId' | 'workerIndex'>
+
+interface ProcessResult {
+  progress?: TestProgress
+  scenario?: TestScenario
+  result?: TestResult
+  logs?: OutputLine[]
+}
+
+function isScenarioFile(file: string): boolean {
+  // Setup projects (auth.setup.ts) are not scenarios
+  return file.endsWith('.spec.ts')
+}
+
+/**
+ * Turns reporter events into scenario, progress and result updates.
+ */
+export class ReporterEventProcessor {
+  private totalTests = 0
+  private passedTests = 0
+  private failedTests = 0
+  private skippedTests = 0
+  private endedShards = 0
+  private duration = 0
+  private scenarios: Map<string, TestScenario> = new Map()
+
+  /**
+   * @param mapAttachment turns reporter attachments into servable ones;
+   *   attachments it returns null for are dropped
+   * @param shardCount number of processes reporting into this processor; each
+   *   sends its own begin/end pair and the result waits for the last end
+   */
+  constructor(
+    private readonly mapAttachment: AttachmentMapper = () => null,
+    private readonly shardCount = 1
+  ) {}
+
+  parseLine(line: string): ReporterEvent | null {
+    if (!line.trim()) return null
+    try {
+      return JSON.parse(line) as ReporterEvent
+    } catch {
+      return null
+    }
+  }
+
+  handleEvent(event: ReporterEvent): ProcessResult {
+    switch (event.type) {
+      case 'begin':
+        this.totalTests += event.tests.filter(test => isScenarioFile(test.file)).length
+        return { progress: this.getProgress() }
+
+      case 'testBegin': {
+        if (!isScenarioFile(event.test.file)) return {}
+        const scenario = this.upsertScenario(event.test)
+        scenario.status = 'running'
+        return { scenario: { ...scenario } }
+      }
+
+      case 'testEnd':
+        return this.handleTestEnd(event)
+
+      case 'end':
+        // Shards run side by side, so the run takes as long as the slowest one
+        this.endedShards++
+        this.duration = Math.max(this.duration, event.duration)
+        if (this.endedShards < this.shardCount) return {}
+        return { result: this.getResult(this.duration) }
+
+      case 'stdout':
+      case 'stderr':
+        return { logs: this.getOutputLines(event) }
+
+      default:
+        return {}
+    }
+  }
+
+  private handleTestEnd(event: ReporterTestEndEvent): ProcessResult {
+    if (!isScenarioFile(event.test.file)) return {}
+
+    const scenario = this.upsertScenario(event.test)
+    scenario.duration = event.duration
+    if (event.retry > 0) {
+      scenario.retries = event.retry
+    }
+
+    const error = event.errors
+      .map(e => stripAnsi(e.stack || e.message || ''))
+      .filter(Boolean)
+      .join('\n\n')
+    if (error) {
+      scenario.error = error
+    }
+
+    // Videos and traces are recorded on the first retry, so keep every attempt's files
+    const attachments = event.attachments
+      .map(attachment => this.mapAttachment(attachment, event.retry))
+      .filter((attachment): attachment is TestAttachment => !!attachment)
+    if (attachments.length > 0) {
+      scenario.attachments = [...(scenario.attachments ?? []), ...attachments]
+    }
+
+    if (!event.final) {
+      // Playwright will retry this test
+      scenario.status = 'running'
+      return { scenario: { ...scenario } }
+    }
+
+    scenario.status = this.getFinalStatus(event)
+    if (scenario.status === 'passed') {
+      // Errors from earlier attempts are stale once a retry passes
+      delete scenario.error
+      this.passedTests++
+    } else if (scenario.status === 'failed') {
+      this.failedTests++
+    } else if (scenario.status === 'skipped') {
+      this.skippedTests++
+    }
+
+    return {
+      scenario: { ...scenario },
+      progress: this.getProgress(),
+    }
+  }
+
+  private getOutputLines(event: ReporterOutputEvent): OutputLine[] {
+    return event.text
+      .split(/\r?\n/)
+      .filter(line => line.trim())
+      .map(line => ({
+        type: event.type,
+        content: line,
+        scenarioId: event.test?.scenarioId,
+        workerIndex: event.workerIndex,
+      }))
+  }
+
+  private getFinalStatus(event: ReporterTestEndEvent): TestScenarioStatus {
+    if (event.status === 'skipped' || event.outcome === 'skipped') return 'skipped'
+    if (event.outcome === 'expected' || event.outcome === 'flaky') return 'passed'
+    return 'failed'
+  }
+
+  private upsertScenario(test: ReporterTestInfo): TestScenario {
+    let scenario = this.scenarios.get(test.scenarioId)
+    if (!scenario) {
+      scenario = {
+        id: test.scenarioId,
+        name: test.title,
+        file: test.file,
+        suite: test.suite,
+        status: 'pending',
+      }
+      this.scenarios.set(test.scenarioId, scenario)
+    }
+    return scenario
+  }
+
+  getProgress(): TestProgress {
+    const completed = this.passedTests + this.failedTests + this.skippedTests
+    return {
+      passed: this.passedTests,
+      failed: this.failedTests,
+      pending: Math.max(0, this.totalTests - completed),
+      total: this.totalTests,
+    }
+  }
+
+  getScenarios(): TestScenario[] {
+    return Array.from(this.scenarios.values()).map(scenario => ({ ...scenario }))
+  }
+
+  getResult(duration: number): TestResult {
+    return {
+      passed: this.passedTests,
+      failed: this.failedTests,
+      skipped: this.skippedTests,
+      duration: Math.round(duration),
+      scenarios: this.getScenarios(),
+    }
+  }
+}
@@ -0,0 +1,237 @@
+import { stripAnsi } from '../../../../src/lib/ansi'
+import type { RunExportFormat, TestRun, TestScenario, TestStatus } from './types'
+
+/**
+ * Run fields the formatters need. Matches both a stored TestRun and the
+ * /api/e2e/status response, so the CLI can format what the API returns.
+ */
+export type FormattableRun = Pick<TestRun, 'runId' | 'status' | 'category' | 'config' | 'startedAt'> &
+  Partial<Pick<TestRun, 'completedAt' | 'results' | 'scenarios' | 'startedBy'>>
+
+// Bump when a field of RunReport changes meaning or is removed
+export const REPORT_SCHEMA_VERSION = 1
+
+export interface RunReport {
+  schemaVersion: number
+  runId: string
+  status: TestStatus
+  category: string
+  config: string
+  startedBy?: string
+  startedAt: string
+  completedAt?: string
+  passed: number
+  failed: number
+  skipped: number
+  // Milliseconds
+  duration: number
+  scenarios: Array<Pick<TestScenario, 'id' | 'name' | 'file' | 'suite' | 'status' | 'duration' | 'retries' | 'error'>>
+}
+
+// Characters XML 1.0 does not allow, even escaped
+const INVALID_XML_PATTERN = /[^\u0009\u000a\u000d\u0020-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu
+
+function getScenarios(run: FormattableRun): TestScenario[] {
+  return run.results?.scenarios?.length ? run.results.scenarios : run.scenarios ?? []
+}
+
+export function toRunReport(run: FormattableRun): RunReport {
+  const scenarios = getScenarios(run)
+  const count = (status: TestScenario['status']) => scenarios.filter(s => s.status === status).length
+
+  return {
+    schemaVersion: REPORT_SCHEMA_VERSION,
+    runId: run.runId,
+    status: run.status,
+    category: run.category,
+    config: run.config,
+    startedBy: run.startedBy,
+    startedAt: run.startedAt,
+    completedAt: run.completedAt,
+    passed: run.results?.passed ?? count('passed'),
+    failed: run.results?.failed ?? count('failed'),
+    skipped: run.results?.skipped ?? count('skipped'),
+    duration: run.results?.duration ??
+      (run.completedAt ? new Date(run.completedAt).getTime() - new Date(run.startedAt).getTime() : 0),
+    scenarios: scenarios.map(scenario => ({
+      id: scenario.id,
+      name: scenario.name,
+      file: scenario.file,
+      suite: scenario.suite,
+      status: scenario.status,
+      duration: scenario.duration,
+      retries: scenario.retries,
+      // Playwright errors carry terminal colours
+      error: scenario.error ? stripAnsi(scenario.error) : undefined,
+    })),
+  }
+}
+
+export function formatJson(run: FormattableRun): string {
+  return JSON.stringify(toRunReport(run), null, 2)
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(INVALID_XML_PATTERN, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function toSeconds(ms: number | undefined): string {
+  return ((ms ?? 0) / 1000).toFixed(3)
+}
+
+/**
+ * JUnit XML with one <testsuite> per describe block (or spec file for
+ * top-level tests). A cancelled run's unfinished scenarios are reported as skipped.
+ */
+export function formatJUnit(run: FormattableRun): string {
+  const report = toRunReport(run)
+  const bySuite = new Map<string, RunReport['scenarios']>()
+  for (const scenario of report.scenarios) {
+    const suite = scenario.suite || scenario.file
+    const scenarios = bySuite.get(suite) ?? []
+    scenarios.push(scenario)
+    bySuite.set(suite, scenarios)
+  }
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(`E2E ${report.category} (${report.config})`)}" tests="${report.scenarios.length}" ` +
+      `failures="${report.failed}" skipped="${report.skipped}" time="${toSeconds(report.duration)}">`,
+  ]
+
+  for (const [suite, scenarios] of bySuite) {
+    const failures = scenarios.filter(s => s.status === 'failed').length
+    const skipped = scenarios.filter(s => s.status !== 'passed' && s.status !== 'failed').length
+    const time = scenarios.reduce((sum, s) => sum + (s.duration ?? 0), 0)
+    // The JUnit schema's timestamp has no fraction or time zone
+    lines.push(
+      `  <testsuite name="${escapeXml(suite)}" tests="${scenarios.length}" failures="${failures}" errors="0" ` +
+        `skipped="${skipped}" time="${toSeconds(time)}" timestamp="${report.startedAt.slice(0, 19)}">`
+    )
+
+    for (const scenario of scenarios) {
+      const attributes = `name="${escapeXml(scenario.name)}" classname="${escapeXml(scenario.file)}" ` +
+        `time="${toSeconds(scenario.duration)}"`
+      if (scenario.status === 'passed') {
+        lines.push(`    <testcase ${attributes}/>`)
+      } else if (scenario.status === 'failed') {
+        const error = scenario.error ?? 'Test failed'
+        lines.push(
+          `    <testcase ${attributes}>`,
+          `      <failure message="${escapeXml(error.split('\n')[0])}">${escapeXml(error)}</failure>`,
+          '    </testcase>'
+        )
+      } else {
+        lines.push(`    <testcase ${attributes}>`, '      <skipped/>', '    </testcase>')
+      }
+    }
+
+    lines.push('  </testsuite>')
+  }
+
+  lines.push('</testsuites>')
+  return `${lines.join('\n')}\n`
+}
+
+const STATUS_EMOJI: Record<TestStatus, string> = {
+  queued: ':hourglass:',
+  running: ':arrow_forward:',
+  completed: ':white_check_mark:',
+  failed: ':x:',
+  cancelled: ':no_entry_sign:',
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000)
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]<>|])/g, '\\$1').replace(/\n/g, ' ')
+}
+
+/**
+ * Summary for pasting into a PR comment. Errors are collapsed in <details>
+ * so long stack traces don't take over the thread.
+ */
+export function formatMarkdown(run: FormattableRun, runUrl?: string): string {
+  const report = toRunReport(run)
+  const title = `E2E ${report.category} on ${report.config}: ${report.status}`
+  const lines = [
+    `### ${STATUS_EMOJI[report.status]} ${runUrl ? `[${escapeMarkdown(title)}](${runUrl})` : escapeMarkdown(title)}`,
+    '',
+    '| Passed | Failed | Skipped | Duration |',
+    '| --- | --- | --- | --- |',
+    `| ${report.passed} | ${report.failed} | ${report.skipped} | ${formatDuration(report.duration)} |`,
+  ]
+
+  const failed = report.scenarios.filter(s => s.status === 'failed')
+  if (failed.length > 0) {
+    lines.push('', `#### Failed tests (${failed.length})`, '')
+    for (const scenario of failed) {
+      const name = [scenario.suite, scenario.name].filter(Boolean).map(part => escapeMarkdown(part!)).join(' > ')
+      lines.push(`- **${name}** in \`${scenario.file}\``)
+      if (scenario.error) {
+        // A fence longer than any backtick run in the error can't be closed early
+        const longestRun = Math.max(0, ...(scenario.error.match(/`+/g) ?? []).map(match => match.length))
+        const fence = '`'.repeat(Math.max(3, longestRun + 1))
+        lines.push('', '  <details><summary>Error</summary>', '', `  ${fence}`,
+          ...scenario.error.split('\n').map(line => `  ${line}`), `  ${fence}`, '', '  </details>')
+      }
+    }
+  }
+
+  lines.push('', `<sub>Run ${report.runId} started ${report.startedAt}${report.startedBy ? ` by ${escapeMarkdown(report.startedBy)}` : ''}</sub>`)
+  return `${lines.join('\n')}\n`
+}
+
+function escapeCsv(value: string | number | undefined): string {
+  let text = value === undefined ? '' : String(value)
+  // Spreadsheets evaluate cells starting with these as formulas
+  if (/^[=+\-@]/.test(text)) text = `'${text}`
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * One row per scenario, for spreadsheets.
+ */
+export function formatCsv(run: FormattableRun): string {
+  const report = toRunReport(run)
+  const rows = [
+    ['runId', 'suite', 'file', 'name', 'status', 'durationMs', 'retries', 'error'],
+    ...report.scenarios.map(s => [
+      report.runId, s.suite, s.file, s.name, s.status, s.duration, s.retries, s.error?.split('\n')[0],
+    ]),
+  ]
+  return `${rows.map(row => row.map(escapeCsv).join(',')).join('\r\n')}\r\n`
+}
+
+export const EXPORT_FORMATS: Record<RunExportFormat, { contentType: string; extension: string }> = {
+  junit: { contentType: 'application/xml; charset=utf-8', extension: 'xml' },
+  json: { contentType: 'application/json; charset=utf-8', extension: 'json' },
+  markdown: { contentType: 'text/markdown; charset=utf-8', extension: 'md' },
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+}
+
+export function isExportFormat(value: string): value is RunExportFormat {
+  return Object.prototype.hasOwnProperty.call(EXPORT_FORMATS, value)
+}
+
+export function formatRun(run: FormattableRun, format: RunExportFormat, runUrl?: string): string {
+  switch (format) {
+    case 'junit':
+      return formatJUnit(run)
+    case 'json':
+      return `${formatJson(run)}\n`
+    case 'markdown':
+      return formatMarkdown(run, runUrl)
+    case 'csv':
+      return formatCsv(run)
+  }
+}
@@ -0,0 +1,71 @@
+import type { ScenarioChange, ScenarioComparison, TestRun, TestScenario } from './types'
+
+// Most interesting changes first
+const CHANGE_ORDER: ScenarioChange[] = [
+  'newly-failing',
+  'newly-passing',
+  'newly-skipped',
+  'added',
+  'removed',
+  'unchanged',
+]
+
+function getScenarios(run: TestRun): Map<string, TestScenario> {
+  // Cancelled runs have no results, but their scenarios are still worth comparing
+  const scenarios = run.results?.scenarios ?? run.scenarios
+  return new Map(scenarios.map(scenario => [scenario.id, scenario]))
+}
+
+function classify(base: TestScenario | undefined, head: TestScenario | undefined): ScenarioChange {
+  if (!base) return 'added'
+  if (!head) return 'removed'
+  if (base.status === head.status) return 'unchanged'
+  if (head.status === 'failed') return 'newly-failing'
+  if (head.status === 'passed') return 'newly-passing'
+  if (head.status === 'skipped') return 'newly-skipped'
+  return 'unchanged'
+}
+
+/**
+ * Diff two runs scenario by scenario, matching on scenario id.
+ */
+export function compareRuns(base: TestRun, head: TestRun): {
+  summary: Record<ScenarioChange, number>
+  scenarios: ScenarioComparison[]
+} {
+  const baseScenarios = getScenarios(base)
+  const headScenarios = getScenarios(head)
+  const ids = new Set([...baseScenarios.keys(), ...headScenarios.keys()])
+
+  const summary = Object.fromEntries(CHANGE_ORDER.map(change => [change, 0])) as Record<ScenarioChange, number>
+  const scenarios: ScenarioComparison[] = []
+
+  for (const id of ids) {
+    const baseScenario = baseScenarios.get(id)
+    const headScenario = headScenarios.get(id)
+    const scenario = (headScenario ?? baseScenario)!
+    const change = classify(baseScenario, headScenario)
+    const baseDuration = baseScenario?.duration ?? null
+    const headDuration = headScenario?.duration ?? null
+
+    summary[change]++
+    scenarios.push({
+      scenarioId: id,
+      name: scenario.name,
+      file: scenario.file,
+      change,
+      baseStatus: baseScenario?.status ?? null,
+      headStatus: headScenario?.status ?? null,
+      baseDuration,
+      headDuration,
+      durationDelta: baseDuration !== null && headDuration !== null ? headDuration - baseDuration : null,
+    })
+  }
+
+  scenarios.sort((a, b) =>
+    CHANGE_ORDER.indexOf(a.change) - CHANGE_ORDER.indexOf(b.change) ||
+    a.scenarioId.localeCompare(b.scenarioId)
+  )
+
+  return { summary, scenarios }
+}
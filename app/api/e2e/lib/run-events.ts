@@ -0,0 +1,130 @@
+import type { RunEventName, TestRun, TestStatus } from './types'
+
+// Comment lines keep proxies from closing a stream that's quiet between tests
+const HEARTBEAT_INTERVAL_MS = 15 * 1000
+// How long EventSource waits before reconnecting on its own
+const RECONNECT_DELAY_MS = 3000
+
+export const RUN_EVENT_NAMES: RunEventName[] = ['created', 'log', 'progress', 'scenario', 'queue', 'complete', 'status']
+
+type SendEvent = (event: string, data: unknown, seq?: number) => void
+
+interface EventStream {
+  send: SendEvent
+  close: () => void
+}
+
+export function isFinishedStatus(status: TestStatus): boolean {
+  return status === 'completed' || status === 'failed' || status === 'cancelled'
+}
+
+/**
+ * Read the last event id a client saw, from the header EventSource sends when
+ * it reconnects by itself or from ?lastEventId for new connections.
+ */
+export function getLastEventId(request: Request): number {
+  const value = request.headers.get('last-event-id') || new URL(request.url).searchParams.get('lastEventId')
+  return parseInt(value || '0', 10) || 0
+}
+
+/**
+ * Send a client what it missed since `lastEventId`: newer logs, then a
+ * snapshot of progress and scenarios, the results if the run is over, and
+ * always its current status. Progress, scenarios and status are state rather
+ * than history, so the current snapshot replaces whatever events were missed.
+ */
+export function replayRunEvents(run: TestRun, lastEventId: number, send: SendEvent): void {
+  for (const log of run.logs ?? []) {
+    if (log.seq === undefined || log.seq > lastEventId) {
+      send('log', log, log.seq)
+    }
+  }
+
+  const snapshotSeq = run.lastSeq ?? 0
+  if (lastEventId === 0 || snapshotSeq > lastEventId) {
+    if (run.progress) {
+      send('progress', run.progress, snapshotSeq)
+    }
+
+    if (run.queuePosition) {
+      send('queue', { position: run.queuePosition }, snapshotSeq)
+    }
+
+    for (const scenario of run.scenarios ?? []) {
+      send('scenario', scenario, snapshotSeq)
+    }
+  }
+
+  if (isFinishedStatus(run.status) && run.results) {
+    send('complete', run.results, snapshotSeq)
+  }
+  // Last, so a queued run keeps the position sent above and a started one clears it
+  send('status', { status: run.status }, snapshotSeq)
+}
+
+/**
+ * An SSE response with heartbeats. `start` sends the initial events and may
+ * return a cleanup function (e.g. an unsubscribe), which runs once the stream
+ * is closed by either side.
+ */
+export function createEventStream(
+  request: Request,
+  start: (stream: EventStream) => (() => void) | void
+): Response {
+  const encoder = new TextEncoder()
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let isClosed = false
+      let heartbeat: NodeJS.Timeout | undefined
+      let cleanup: (() => void) | void
+
+      const close = () => {
+        if (isClosed) return
+        isClosed = true
+        clearInterval(heartbeat)
+        cleanup?.()
+        try {
+          controller.close()
+        } catch {
+          // Already closed
+        }
+      }
+
+      const write = (text: string) => {
+        if (isClosed) return
+        try {
+          controller.enqueue(encoder.encode(text))
+        } catch {
+          close()
+        }
+      }
+
+      const send: SendEvent = (event, data, seq) => {
+        const id = seq !== undefined ? `id: ${seq}\n` : ''
+        write(`${id}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+      }
+
+      write(`retry: ${RECONNECT_DELAY_MS}\n\n`)
+      cleanup = start({ send, close })
+
+      // start() may already have closed the stream, before cleanup was known
+      if (isClosed) {
+        cleanup?.()
+        return
+      }
+
+      heartbeat = setInterval(() => write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS)
+      request.signal.addEventListener('abort', close)
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  })
+}
@@ -0,0 +1,59 @@
+import type { TestCategory, TestSelection } from './types'
+
+export const VALID_CATEGORIES: TestCategory[] = ['auth', 'home', 'project', 'all']
+
+const SPEC_FILE_PATTERN = /^(e2e\/)?tests\/[\w\-/.]+\.spec\.ts$/
+const TEST_ID_PATTERN = /^(e2e\/)?tests\/[\w\-/.]+\.spec\.ts:.+$/
+const MAX_GREP_LENGTH = 500
+export const MAX_SHARDS = 8
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string')
+}
+
+function validatePattern(name: string, value: unknown): string | null {
+  if (typeof value !== 'string' || value.length > MAX_GREP_LENGTH) {
+    return `Invalid ${name}. Must be a string of at most ${MAX_GREP_LENGTH} characters`
+  }
+  try {
+    new RegExp(value)
+  } catch {
+    return `Invalid ${name}. Must be a valid regular expression`
+  }
+  return null
+}
+
+/**
+ * Validate the selection fields of a run request (or schedule).
+ */
+export function parseSelection(body: TestSelection): { selection?: TestSelection; error?: string } {
+  const selection: TestSelection = {}
+
+  if (body.files !== undefined) {
+    if (!isStringArray(body.files) || body.files.some(f => f.includes('..') || !SPEC_FILE_PATTERN.test(f))) {
+      return { error: 'Invalid files. Each entry must be a spec path such as tests/auth/login.spec.ts' }
+    }
+    if (body.files.length > 0) selection.files = body.files
+  }
+
+  if (body.testIds !== undefined) {
+    if (!isStringArray(body.testIds) || body.testIds.some(id => id.includes('..') || !TEST_ID_PATTERN.test(id))) {
+      return { error: 'Invalid testIds. Each entry must look like tests/auth/login.spec.ts:<test title>' }
+    }
+    if (body.testIds.length > 0) selection.testIds = body.testIds
+  }
+
+  if (body.grep !== undefined && body.grep !== '') {
+    const error = validatePattern('grep', body.grep)
+    if (error) return { error }
+    selection.grep = body.grep
+  }
+
+  if (body.grepInvert !== undefined && body.grepInvert !== '') {
+    const error = validatePattern('grepInvert', body.grepInvert)
+    if (error) return { error }
+    selection.grepInvert = body.grepInvert
+  }
+
+  return { selection: Object.keys(selection).length > 0 ? selection : undefined }
+}
@@ -0,0 +1,118 @@
+import path from 'path'
+import fs from 'fs'
+import type { TestRun } from './types'
+
+export type RunStoreKind = 'memory' | 'file'
+
+/**
+ * Storage backend behind TestRunManager.
+ * The manager keeps live runs in memory and writes them through to the store,
+ * so history survives dev-server restarts and manager version bumps.
+ */
+export interface RunStore {
+  readonly kind: RunStoreKind
+  loadAll(): TestRun[]
+  load(runId: string): TestRun | undefined
+  save(run: TestRun): void
+  remove(runId: string): void
+}
+
+/**
+ * Keeps runs in process memory only (the original behaviour).
+ */
+export class MemoryRunStore implements RunStore {
+  readonly kind = 'memory' as const
+  private runs: Map<string, TestRun> = new Map()
+
+  loadAll(): TestRun[] {
+    return Array.from(this.runs.values())
+  }
+
+  load(runId: string): TestRun | undefined {
+    return this.runs.get(runId)
+  }
+
+  save(run: TestRun): void {
+    this.runs.set(run.runId, run)
+  }
+
+  remove(runId: string): void {
+    this.runs.delete(runId)
+  }
+}
+
+/**
+ * Stores one JSON document per run in a directory on disk.
+ */
+export class FileRunStore implements RunStore {
+  readonly kind = 'file' as const
+
+  constructor(private readonly dir: string) {}
+
+  private filePath(runId: string): string {
+    return path.join(this.dir, `${runId}.json`)
+  }
+
+  private ensureDir(): void {
+    if (!fs.existsSync(this.dir)) {
+      fs.mkdirSync(this.dir, { recursive: true })
+    }
+  }
+
+  loadAll(): TestRun[] {
+    if (!fs.existsSync(this.dir)) return []
+
+    const runs: TestRun[] = []
+    for (const file of fs.readdirSync(this.dir)) {
+      if (!file.endsWith('.json')) continue
+      const run = this.load(file.slice(0, -'.json'.length))
+      if (run) runs.push(run)
+    }
+    return runs
+  }
+
+  load(runId: string): TestRun | undefined {
+    // Run ids are uuids; refuse anything that could escape the directory
+    if (!/^[\w-]+$/.test(runId)) return undefined
+
+    try {
+      const content = fs.readFileSync(this.filePath(runId), 'utf-8')
+      return JSON.parse(content) as TestRun
+    } catch {
+      return undefined
+    }
+  }
+
+  save(run: TestRun): void {
+    this.ensureDir()
+    const target = this.filePath(run.runId)
+    const tmp = `${target}.${process.pid}.tmp`
+    fs.writeFileSync(tmp, JSON.stringify(run))
+    fs.renameSync(tmp, target)
+  }
+
+  remove(runId: string): void {
+    fs.rmSync(this.filePath(runId), { force: true })
+  }
+}
+
+/**
+ * Directory for everything the dashboard persists (runs, artifacts, settings).
+ */
+export function getDataDir(): string {
+  if (process.env.E2E_DATA_DIR) {
+    return path.resolve(process.env.E2E_DATA_DIR)
+  }
+  // Vercel only allows writes under /tmp
+  const isVercel = !!process.env.VERCEL || !!process.env.VERCEL_ENV
+  return isVercel ? '/tmp/e2e/data' : path.join(process.cwd(), '.e2e-data')
+}
+
+export function createRunStore(): RunStore {
+  const kind = (process.env.E2E_RUN_STORE || 'file') as RunStoreKind
+
+  if (kind === 'memory') {
+    return new MemoryRunStore()
+  }
+  return new FileRunStore(path.join(getDataDir(), 'runs'))
+}
@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { getLegacyScenarioId, migrateRunScenarioIds } from './scenario-ids'
+import type { TestRun, TestScenario } from './types'
+
+function createScenario(overrides: Partial<TestScenario> = {}): TestScenario {
+  return {
+    id: 'tests/auth/login.spec.ts:rejects a wrong password',
+    name: 'rejects a wrong password',
+    file: 'tests/auth/login.spec.ts',
+    suite: 'login › form',
+    status: 'failed',
+    ...overrides,
+  } as TestScenario
+}
+
+describe('getLegacyScenarioId', () => {
+  it('drops the describe blocks', () => {
+    assert.equal(
+      getLegacyScenarioId('tests/auth/login.spec.ts:login > form > rejects a wrong password'),
+      'tests/auth/login.spec.ts:rejects a wrong password'
+    )
+  })
+
+  it('returns null for tests outside a describe block', () => {
+    assert.equal(getLegacyScenarioId('tests/auth/login.spec.ts:rejects a wrong password'), null)
+  })
+})
+
+describe('migrateRunScenarioIds', () => {
+  it('moves scenarios and their log lines to the current ids', () => {
+    const run = {
+      scenarios: [createScenario()],
+      results: { scenarios: [createScenario()] },
+      logs: [{ message: 'failed', scenarioId: 'tests/auth/login.spec.ts:rejects a wrong password' }],
+    } as unknown as TestRun
+
+    migrateRunScenarioIds(run)
+
+    const id = 'tests/auth/login.spec.ts:login > form > rejects a wrong password'
+    assert.equal(run.scenarios[0].id, id)
+    assert.equal(run.results!.scenarios[0].id, id)
+    assert.equal(run.logs[0].scenarioId, id)
+  })
+
+  it('leaves current ids and scenarios without a suite alone', () => {
+    const current = createScenario({ id: 'tests/auth/login.spec.ts:login > form > rejects a wrong password' })
+    const topLevel = createScenario({ suite: '' })
+    const run = { scenarios: [current, topLevel], logs: [] } as unknown as TestRun
+
+    migrateRunScenarioIds(run)
+
+    assert.equal(current.id, 'tests/auth/login.spec.ts:login > form > rejects a wrong password')
+    assert.equal(topLevel.id, 'tests/auth/login.spec.ts:rejects a wrong password')
+  })
+})
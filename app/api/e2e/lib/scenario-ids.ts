@@ -0,0 +1,45 @@
+import type { TestRun, TestScenario } from './types'
+
+// Scenario ids are `<file>:<describe blocks and title joined by ' > '>`.
+// Runs recorded before the describe blocks were part of them used
+// `<file>:<title>`, which two tests with one title in a file shared.
+const SCENARIO_ID_PATTERN = /^(.+?\.spec\.ts):(.+)$/
+
+/**
+ * The id a scenario had before describe blocks were part of it, or null if
+ * it isn't in a describe block and so kept its id.
+ */
+export function getLegacyScenarioId(scenarioId: string): string | null {
+  const match = scenarioId.match(SCENARIO_ID_PATTERN)
+  if (!match) return null
+  const titlePath = match[2].split(' > ')
+  return titlePath.length > 1 ? `${match[1]}:${titlePath[titlePath.length - 1]}` : null
+}
+
+/**
+ * The current id of a stored scenario. Its suite already holds the describe
+ * blocks, joined the way the reporter does.
+ */
+export function migrateScenarioId(scenario: Pick<TestScenario, 'id' | 'file' | 'name' | 'suite'>): string {
+  if (!scenario.suite || scenario.id !== `${scenario.file}:${scenario.name}`) return scenario.id
+  return `${scenario.file}:${[...scenario.suite.split(' › '), scenario.name].join(' > ')}`
+}
+
+/**
+ * Give the scenarios (and their log lines) of a run stored with legacy ids
+ * their current ids, so history lines up with new runs.
+ */
+export function migrateRunScenarioIds(run: TestRun): void {
+  const migrated = new Map<string, string>()
+  for (const scenario of [...(run.scenarios ?? []), ...(run.results?.scenarios ?? [])]) {
+    const id = migrateScenarioId(scenario)
+    if (id === scenario.id) continue
+    migrated.set(scenario.id, id)
+    scenario.id = id
+  }
+  if (migrated.size === 0) return
+
+  for (const log of run.logs ?? []) {
+    if (log.scenarioId) log.scenarioId = migrated.get(log.scenarioId) ?? log.scenarioId
+  }
+}
@@ -0,0 +1,95 @@
+import { testRunManager } from './test-run-manager'
+import { processQueue, canExecuteTests } from './playwright-executor'
+import { getEnvironment } from './environments'
+import { listSchedules, recordScheduleTrigger, ensureNextRunTimes } from './schedules'
+import type { ScheduleTickResponse } from './types'
+
+const SCHEDULER_INTERVAL_MS = 60 * 1000
+
+const globalForScheduler = globalThis as unknown as {
+  schedulerTimer: NodeJS.Timeout | undefined
+  schedulerTickRunning: boolean | undefined
+}
+
+/**
+ * Queue a run for every enabled schedule whose next slot has passed.
+ * Called by the tick endpoint (Vercel cron) and the in-process scheduler.
+ */
+export function runDueSchedules(now = new Date()): ScheduleTickResponse {
+  const response: ScheduleTickResponse = { checkedAt: now.toISOString(), triggered: [], errors: [] }
+
+  // The in-process timer and the cron endpoint may overlap
+  if (globalForScheduler.schedulerTickRunning) return response
+  globalForScheduler.schedulerTickRunning = true
+
+  try {
+    ensureNextRunTimes(now)
+
+    const due = listSchedules().filter(schedule =>
+      schedule.enabled && schedule.nextRunAt && new Date(schedule.nextRunAt) <= now
+    )
+
+    for (const schedule of due) {
+      const canExecute = canExecuteTests()
+      const error = !canExecute.allowed
+        ? canExecute.reason
+        : !getEnvironment(schedule.config)
+        ? `Unknown environment: ${schedule.config}`
+        : undefined
+
+      if (error) {
+        recordScheduleTrigger(schedule.id, { error }, now)
+        response.errors.push({ scheduleId: schedule.id, error })
+        continue
+      }
+
+      try {
+        const run = testRunManager.createRun(schedule.category, schedule.config, {
+          selection: schedule.selection,
+          shards: schedule.shards,
+          triggeredBy: 'schedule',
+          scheduleId: schedule.id,
+          startedBy: `schedule:${schedule.name}`,
+        })
+        testRunManager.addLog(run.runId, 'info', `Triggered by schedule "${schedule.name}" (${schedule.cron})`)
+        recordScheduleTrigger(schedule.id, { runId: run.runId }, now)
+        response.triggered.push({ scheduleId: schedule.id, runId: run.runId })
+      } catch (createError) {
+        const message = createError instanceof Error ? createError.message : 'Failed to create run'
+        recordScheduleTrigger(schedule.id, { error: message }, now)
+        response.errors.push({ scheduleId: schedule.id, error: message })
+      }
+    }
+
+    if (response.triggered.length > 0) {
+      processQueue()
+    }
+  } finally {
+    globalForScheduler.schedulerTickRunning = false
+  }
+
+  return response
+}
+
+/**
+ * Check schedules every minute from inside the server process.
+ * For long-running deployments; on Vercel the cron job calls the tick endpoint.
+ */
+export function startScheduler(): void {
+  if (globalForScheduler.schedulerTimer) return
+
+  const tick = () => {
+    try {
+      // Queued runs log their schedule themselves
+      const { errors } = runDueSchedules()
+      for (const { scheduleId, error } of errors) {
+        console.error(`[Scheduler] Schedule ${scheduleId} failed: ${error}`)
+      }
+    } catch (error) {
+      console.error('[Scheduler] Tick failed:', error)
+    }
+  }
+
+  globalForScheduler.schedulerTimer = setInterval(tick, SCHEDULER_INTERVAL_MS)
+  globalForScheduler.schedulerTimer.unref()
+}
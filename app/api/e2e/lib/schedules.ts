@@ -0,0 +1,179 @@
+import path from 'path'
+import fs from 'fs'
+import { v4 as uuidv4 } from 'uuid'
+import { getDataDir } from './run-store'
+import { getEnvironment } from './environments'
+import { getNextCronTime, validateCron } from './cron'
+import { parseSelection, MAX_SHARDS, VALID_CATEGORIES } from './run-selection'
+import type { ScheduleInput, TestSchedule } from './types'
+
+const MAX_NAME_LENGTH = 100
+
+/**
+ * Schedules live in schedules.json in the data dir, next to environments.json.
+ */
+function getSchedulesFile(): string {
+  return path.join(getDataDir(), 'schedules.json')
+}
+
+function loadSchedules(): TestSchedule[] {
+  try {
+    const content = JSON.parse(fs.readFileSync(getSchedulesFile(), 'utf-8'))
+    return Array.isArray(content) ? content as TestSchedule[] : []
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('[Schedules] Failed to load schedules:', error)
+    }
+    return []
+  }
+}
+
+function saveSchedules(schedules: TestSchedule[]): void {
+  const file = getSchedulesFile()
+  fs.mkdirSync(path.dirname(file), { recursive: true })
+  const tmp = `${file}.${process.pid}.tmp`
+  fs.writeFileSync(tmp, JSON.stringify(schedules, null, 2))
+  fs.renameSync(tmp, file)
+}
+
+function getNextRunAt(schedule: Pick<TestSchedule, 'cron' | 'enabled'>, after = new Date()): string | undefined {
+  if (!schedule.enabled || validateCron(schedule.cron)) return undefined
+  return getNextCronTime(schedule.cron, after)?.toISOString()
+}
+
+export function listSchedules(): TestSchedule[] {
+  return loadSchedules()
+}
+
+export function getSchedule(id: string): TestSchedule | undefined {
+  return loadSchedules().find(schedule => schedule.id === id)
+}
+
+/**
+ * Check a schedule definition. Returns an error message, or null if valid.
+ */
+export function validateSchedule(input: unknown): string | null {
+  if (!input || typeof input !== 'object') {
+    return 'Schedule must be an object'
+  }
+  const schedule = input as Partial<ScheduleInput>
+
+  if (typeof schedule.name !== 'string' || !schedule.name.trim() || schedule.name.length > MAX_NAME_LENGTH) {
+    return `Invalid name. Must be a non-empty string of at most ${MAX_NAME_LENGTH} characters`
+  }
+
+  const cronError = validateCron(schedule.cron)
+  if (cronError) return `Invalid cron. ${cronError}`
+
+  if (!schedule.category || !VALID_CATEGORIES.includes(schedule.category)) {
+    return `Invalid category. Must be one of: ${VALID_CATEGORIES.join(', ')}`
+  }
+
+  if (typeof schedule.config !== 'string' || !getEnvironment(schedule.config)) {
+    return `Unknown environment: ${schedule.config}`
+  }
+
+  if (schedule.selection !== undefined) {
+    if (!schedule.selection || typeof schedule.selection !== 'object') {
+      return 'Invalid selection. Must be an object'
+    }
+    const { error } = parseSelection(schedule.selection)
+    if (error) return error
+  }
+
+  const { shards } = schedule
+  if (shards !== undefined && (!Number.isInteger(shards) || shards < 1 || shards > MAX_SHARDS)) {
+    return `Invalid shards. Must be an integer between 1 and ${MAX_SHARDS}`
+  }
+
+  if (schedule.enabled !== undefined && typeof schedule.enabled !== 'boolean') {
+    return 'Invalid enabled. Must be a boolean'
+  }
+
+  return null
+}
+
+function toSchedule(input: ScheduleInput, existing?: TestSchedule): TestSchedule {
+  const schedule: TestSchedule = {
+    id: existing?.id ?? uuidv4(),
+    name: input.name.trim(),
+    cron: input.cron.trim(),
+    category: input.category,
+    config: input.config,
+    selection: input.selection ? parseSelection(input.selection).selection : undefined,
+    shards: input.shards && input.shards > 1 ? input.shards : undefined,
+    enabled: input.enabled ?? existing?.enabled ?? true,
+    createdAt: existing?.createdAt ?? new Date().toISOString(),
+    lastRunAt: existing?.lastRunAt,
+    lastRunId: existing?.lastRunId,
+    lastError: existing?.lastError,
+  }
+  schedule.nextRunAt = getNextRunAt(schedule)
+  return schedule
+}
+
+export function createSchedule(input: ScheduleInput): TestSchedule {
+  const schedule = toSchedule(input)
+  saveSchedules([...loadSchedules(), schedule])
+  return schedule
+}
+
+/**
+ * Replace a schedule's definition, keeping its id and trigger history.
+ * Returns undefined if the schedule doesn't exist.
+ */
+export function updateSchedule(id: string, input: ScheduleInput): TestSchedule | undefined {
+  const schedules = loadSchedules()
+  const index = schedules.findIndex(schedule => schedule.id === id)
+  if (index === -1) return undefined
+
+  schedules[index] = toSchedule(input, schedules[index])
+  saveSchedules(schedules)
+  return schedules[index]
+}
+
+/**
+ * Remove a schedule. Returns false if it doesn't exist.
+ */
+export function removeSchedule(id: string): boolean {
+  const schedules = loadSchedules()
+  const remaining = schedules.filter(schedule => schedule.id !== id)
+  if (remaining.length === schedules.length) return false
+
+  saveSchedules(remaining)
+  return true
+}
+
+/**
+ * Store the outcome of a trigger and move the schedule to its next slot.
+ * Missed slots (e.g. while the server was down) are skipped, not replayed.
+ */
+export function recordScheduleTrigger(
+  id: string,
+  outcome: { runId?: string; error?: string },
+  triggeredAt = new Date()
+): void {
+  const schedules = loadSchedules()
+  const schedule = schedules.find(item => item.id === id)
+  if (!schedule) return
+
+  schedule.lastRunAt = triggeredAt.toISOString()
+  if (outcome.runId) schedule.lastRunId = outcome.runId
+  schedule.lastError = outcome.error
+  schedule.nextRunAt = getNextRunAt(schedule, triggeredAt)
+  saveSchedules(schedules)
+}
+
+/**
+ * Fill in nextRunAt for schedules that lack one, e.g. after hand edits.
+ */
+export function ensureNextRunTimes(now = new Date()): void {
+  const schedules = loadSchedules()
+  let changed = false
+  for (const schedule of schedules) {
+    if (!schedule.enabled || schedule.nextRunAt) continue
+    schedule.nextRunAt = getNextRunAt(schedule, now)
+    changed = changed || !!schedule.nextRunAt
+  }
+  if (changed) saveSchedules(schedules)
+}
@@ -0,0 +1,224 @@
+import net from 'net'
+import tls from 'tls'
+import os from 'os'
+
+const SMTP_TIMEOUT_MS = 15 * 1000
+
+export interface MailMessage {
+  to: string[]
+  subject: string
+  text: string
+}
+
+interface SmtpConfig {
+  host: string
+  port: number
+  // Implicit TLS (usually port 465); otherwise STARTTLS is used when offered
+  secure: boolean
+  user?: string
+  password?: string
+  from: string
+}
+
+interface SmtpReply {
+  code: number
+  lines: string[]
+}
+
+/**
+ * SMTP settings from SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER,
+ * SMTP_PASSWORD and SMTP_FROM. Returns null when email isn't configured.
+ */
+export function getSmtpConfig(): SmtpConfig | null {
+  const host = process.env.SMTP_HOST
+  if (!host) return null
+
+  const secure = process.env.SMTP_SECURE === 'true'
+  return {
+    host,
+    port: parseInt(process.env.SMTP_PORT || (secure ? '465' : '587'), 10),
+    secure,
+    user: process.env.SMTP_USER,
+    password: process.env.SMTP_PASSWORD,
+    from: process.env.SMTP_FROM || process.env.SMTP_USER || `e2e-runner@${os.hostname()}`,
+  }
+}
+
+/**
+ * Line-based reader/writer for one SMTP session.
+ */
+class SmtpConnection {
+  private buffer = ''
+  private lines: string[] = []
+  private replies: SmtpReply[] = []
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null
+  private error: Error | null = null
+
+  constructor(private socket: net.Socket) {
+    this.attach(socket)
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setEncoding('utf-8')
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error('SMTP server timed out')))
+    socket.on('data', (chunk: string) => this.onData(chunk))
+    socket.on('error', error => this.fail(error))
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')))
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk
+    let index: number
+    while ((index = this.buffer.indexOf('\r\n')) !== -1) {
+      const line = this.buffer.slice(0, index)
+      this.buffer = this.buffer.slice(index + 2)
+      this.lines.push(line)
+      // "250-..." continues a reply, "250 ..." ends it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        this.replies.push({ code: parseInt(line.slice(0, 3), 10), lines: this.lines.map(l => l.slice(4)) })
+        this.lines = []
+        this.flush()
+      }
+    }
+  }
+
+  private fail(error: Error): void {
+    if (this.error) return
+    this.error = error
+    this.flush()
+  }
+
+  private flush(): void {
+    if (!this.waiting) return
+    const reply = this.replies.shift()
+    if (reply) {
+      this.waiting.resolve(reply)
+      this.waiting = null
+    } else if (this.error) {
+      this.waiting.reject(this.error)
+      this.waiting = null
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject }
+      this.flush()
+    })
+  }
+
+  // `step` names the command in errors without echoing credentials or message data
+  async command(line: string, expected: number[], step = line.split(' ')[0]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`)
+    return this.expect(expected, step)
+  }
+
+  async expect(expected: number[], step: string): Promise<SmtpReply> {
+    const reply = await this.read()
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP ${step} failed: ${reply.code} ${reply.lines.join(' ')}`)
+    }
+    return reply
+  }
+
+  async startTls(host: string): Promise<void> {
+    this.socket.removeAllListeners('data')
+    this.socket.removeAllListeners('close')
+    this.socket.removeAllListeners('error')
+    this.socket = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const secureSocket = tls.connect({ socket: this.socket, servername: host }, () => resolve(secureSocket))
+      secureSocket.once('error', reject)
+    })
+    this.attach(this.socket)
+  }
+
+  close(): void {
+    this.socket.end()
+  }
+}
+
+function connect(config: SmtpConfig): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    // An unreachable host can leave the connection pending for minutes
+    const onTimeout = () => socket.destroy(new Error(`Timed out connecting to SMTP server ${config.host}:${config.port}`))
+    const onConnect = () => {
+      socket.off('timeout', onTimeout)
+      socket.setTimeout(0)
+      resolve(socket)
+    }
+    const socket: net.Socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host }, onConnect)
+      : net.connect({ host: config.host, port: config.port }, onConnect)
+    socket.setTimeout(SMTP_TIMEOUT_MS)
+    socket.once('timeout', onTimeout)
+    socket.once('error', reject)
+  })
+}
+
+function encodeHeader(value: string): string {
+  // RFC 2047 encoded-word for non-ASCII subjects
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`
+}
+
+function buildMessage(config: SmtpConfig, message: MailMessage): string {
+  const headers = [
+    `From: ${config.from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${Date.now()}.${Math.random().toString(36).slice(2)}@${os.hostname()}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+  ]
+  const body = message.text
+    .replace(/\r?\n/g, '\r\n')
+    // Dot-stuffing: a line starting with "." would otherwise end the data
+    .replace(/^\./gm, '..')
+  return `${headers.join('\r\n')}\r\n\r\n${body}\r\n.`
+}
+
+/**
+ * Send a plain-text email through the configured SMTP server.
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  const config = getSmtpConfig()
+  if (!config) {
+    throw new Error('SMTP is not configured. Set SMTP_HOST')
+  }
+
+  const connection = new SmtpConnection(await connect(config))
+  try {
+    await connection.expect([220], 'greeting')
+    const hostname = os.hostname()
+    let ehlo = await connection.command(`EHLO ${hostname}`, [250])
+
+    if (!config.secure && ehlo.lines.some(line => line.toUpperCase() === 'STARTTLS')) {
+      await connection.command('STARTTLS', [220])
+      await connection.startTls(config.host)
+      ehlo = await connection.command(`EHLO ${hostname}`, [250])
+    }
+
+    if (config.user) {
+      const authLine = ehlo.lines.find(line => line.toUpperCase().startsWith('AUTH')) ?? ''
+      if (/\bPLAIN\b/i.test(authLine) || !/\bLOGIN\b/i.test(authLine)) {
+        const credentials = Buffer.from(`\0${config.user}\0${config.password ?? ''}`).toString('base64')
+        await connection.command(`AUTH PLAIN ${credentials}`, [235], 'AUTH')
+      } else {
+        await connection.command('AUTH LOGIN', [334])
+        await connection.command(Buffer.from(config.user).toString('base64'), [334], 'AUTH')
+        await connection.command(Buffer.from(config.password ?? '').toString('base64'), [235], 'AUTH')
+      }
+    }
+
+    await connection.command(`MAIL FROM:<${config.from.replace(/^.*<|>.*$/g, '')}>`, [250])
+    for (const recipient of message.to) {
+      await connection.command(`RCPT TO:<${recipient}>`, [250, 251])
+    }
+    await connection.command('DATA', [354])
+    await connection.command(buildMessage(config, message), [250], 'message')
+    await connection.command('QUIT', [221]).catch(() => undefined)
+  } finally {
+    connection.close()
+  }
+}
@@ -0,0 +1,52 @@
+import fs from 'fs'
+import path from 'path'
+import { resolveInside } from './artifacts'
+import type { SourceSnippet } from './types'
+
+// Only the test suite's own code is served, never config files or saved auth state
+const SOURCE_DIR = 'e2e'
+const SOURCE_EXTENSIONS = ['.ts']
+
+export const DEFAULT_SOURCE_CONTEXT = 10
+export const MAX_SOURCE_CONTEXT = 50
+
+/**
+ * Resolve a repo-relative path such as e2e/pages/login.page.ts, or null if it
+ * isn't a source file of the test suite.
+ */
+export function resolveSourceFile(file: string): string | null {
+  if (!file.startsWith(`${SOURCE_DIR}/`) || !SOURCE_EXTENSIONS.includes(path.extname(file))) {
+    return null
+  }
+
+  const sourceDir = path.join(process.cwd(), SOURCE_DIR)
+  const resolved = resolveInside(sourceDir, file.slice(SOURCE_DIR.length + 1))
+  if (!resolved || !fs.existsSync(resolved) || !fs.statSync(resolved).isFile()) {
+    return null
+  }
+
+  // A symlink inside the folder could still point outside it
+  return resolveInside(fs.realpathSync(sourceDir), fs.realpathSync(resolved))
+}
+
+/**
+ * The lines around `line` of a test suite source file.
+ */
+export function readSourceSnippet(file: string, line: number, context = DEFAULT_SOURCE_CONTEXT): SourceSnippet | null {
+  const filePath = resolveSourceFile(file)
+  if (!filePath) return null
+
+  const lines = fs.readFileSync(filePath, 'utf-8').replace(/\r?\n$/, '').split(/\r?\n/)
+  // Stack traces can point past the end of a file edited since the run
+  const target = Math.min(line, lines.length)
+  const startLine = Math.max(1, target - context)
+  const endLine = Math.min(lines.length, target + context)
+
+  return {
+    file,
+    line: target,
+    startLine,
+    lines: lines.slice(startLine - 1, endLine),
+    totalLines: lines.length,
+  }
+}
@@ -1,3 +1,4 @@
+import os from 'os'
 import { v4 as uuidv4 } from 'uuid'
 import type {
   TestCategory,
@@ -8,68 +9,211 @@ import type {
   TestResult,
   LogEntry,
   TestScenario,
+  TestSelection,
+  TestHistoryQuery,
+  RunTrigger,
+  QueuedRunSummary,
 } from './types'
+import { createRunStore, type RunStore } from './run-store'
+import { removeRunArtifacts } from './artifacts'
+import { migrateRunScenarioIds } from './scenario-ids'
+
+type EventCallback = (event: string, data: unknown, seq: number, runId: string) => void
+type RunFinishedListener = (run: TestRun) => void
+
+interface CreateRunOptions {
+  selection?: TestSelection
+  // Run this one was derived from, e.g. when re-running failures
+  parentRunId?: string
+  shards?: number
+  triggeredBy?: RunTrigger
+  scheduleId?: string
+  startedBy?: string
+}
 
-type EventCallback = (event: string, data: unknown) => void
+// Subscribe under this key to receive the events of every run
+export const ALL_RUNS = '*'
 
 // Use global to persist across hot reloads and API route boundaries
-const MANAGER_VERSION = 1
+const MANAGER_VERSION = 5
+
+// Log lines arrive in bursts; coalesce their writes to the store
+const PERSIST_DEBOUNCE_MS = 1000
+
+// A queued or running run whose lease ran out lost the process executing it
+const LEASE_DURATION_MS = 2 * 60 * 1000
+const LEASE_RENEW_INTERVAL_MS = 30 * 1000
 const globalForTestRuns = globalThis as unknown as {
   testRunManagerInstance: TestRunManager | undefined
   testRunManagerVersion: number | undefined
+  testRunManagerBootId: string | undefined
+}
+
+// Identifies this process among instances sharing the store. The boot id
+// survives hot reloads, so a new manager doesn't mistake its own runs for
+// abandoned ones, but not a restart: a container restarted with the same
+// hostname and pid is still a different owner.
+const PROCESS_ID = `${os.hostname()}:${process.pid}`
+globalForTestRuns.testRunManagerBootId ??= uuidv4()
+const OWNER_ID = `${PROCESS_ID}:${globalForTestRuns.testRunManagerBootId}`
+
+/**
+ * Every event emitted for a run gets the next id in the run's sequence.
+ */
+function nextSeq(run: TestRun): number {
+  run.lastSeq = (run.lastSeq ?? 0) + 1
+  return run.lastSeq
 }
 
 /**
- * Singleton class to manage E2E test runs in memory.
+ * Number the logs of runs stored before events had ids.
+ */
+function backfillSeqs(run: TestRun): void {
+  if (run.lastSeq !== undefined) return
+  run.logs.forEach((log, index) => {
+    log.seq = index + 1
+  })
+  run.lastSeq = run.logs.length
+}
+
+function isActiveStatus(status: TestStatus): boolean {
+  return status === 'queued' || status === 'running'
+}
+
+function getLeaseExpiry(): string {
+  return new Date(Date.now() + LEASE_DURATION_MS).toISOString()
+}
+
+/**
+ * Singleton class to manage E2E test runs.
+ * Live runs are kept in memory and written through to a RunStore.
  */
 class TestRunManager {
   private runs: Map<string, TestRun> = new Map()
   private subscriptions: Map<string, Set<EventCallback>> = new Map()
+  private runFinishedListeners: Map<string, RunFinishedListener> = new Map()
   private activeRunId: string | null = null
-  private maxHistorySize = 50
-
-  constructor() {}
+  private queue: string[] = []
+  private maxHistorySize = parseInt(process.env.E2E_MAX_HISTORY || '200', 10)
+  private maxQueueSize = 10
+  private pendingPersist: Set<string> = new Set()
+  private persistTimer: NodeJS.Timeout | null = null
+  private leaseTimer: NodeJS.Timeout
+
+  constructor(private readonly store: RunStore = createRunStore()) {
+    this.restoreRuns()
+    this.leaseTimer = setInterval(() => this.renewLeases(), LEASE_RENEW_INTERVAL_MS)
+    this.leaseTimer.unref()
+  }
 
   static getInstance(): TestRunManager {
+    let previous: TestRunManager | undefined
     if (globalForTestRuns.testRunManagerVersion !== MANAGER_VERSION) {
+      previous = globalForTestRuns.testRunManagerInstance
+      // Instances from before a reload may predate dispose()
+      previous?.dispose?.()
       globalForTestRuns.testRunManagerInstance = undefined
       globalForTestRuns.testRunManagerVersion = MANAGER_VERSION
     }
     if (!globalForTestRuns.testRunManagerInstance) {
-      globalForTestRuns.testRunManagerInstance = new TestRunManager()
+      const instance = new TestRunManager()
+      // Listeners are registered once at server start (see bootstrap.ts)
+      previous?.runFinishedListeners?.forEach((listener, key) => instance.onRunFinished(key, listener))
+      globalForTestRuns.testRunManagerInstance = instance
     }
     return globalForTestRuns.testRunManagerInstance
   }
 
-  createRun(category: TestCategory, config: TestConfig): TestRun {
-    if (this.activeRunId) {
-      const activeRun = this.runs.get(this.activeRunId)
-      if (activeRun && ['queued', 'running'].includes(activeRun.status)) {
-        throw new Error('A test run is already in progress')
-      }
+  createRun(category: TestCategory, config: TestConfig, options: CreateRunOptions = {}): TestRun {
+    if (this.queue.length >= this.maxQueueSize) {
+      throw new Error(`The run queue is full (${this.maxQueueSize} runs waiting)`)
     }
 
     const runId = uuidv4()
+    const now = new Date().toISOString()
     const run: TestRun = {
       runId,
       status: 'queued',
       category,
       config,
-      startedAt: new Date().toISOString(),
+      selection: options.selection,
+      parentRunId: options.parentRunId,
+      shards: options.shards,
+      triggeredBy: options.triggeredBy ?? 'manual',
+      scheduleId: options.scheduleId,
+      startedBy: options.startedBy,
+      ownerId: OWNER_ID,
+      leaseExpiresAt: getLeaseExpiry(),
+      queuedAt: now,
+      startedAt: now,
       progress: { passed: 0, failed: 0, pending: 0, total: 0 },
       logs: [],
       scenarios: [],
     }
 
     this.runs.set(runId, run)
-    this.activeRunId = runId
+    this.queue.push(runId)
+    const created: QueuedRunSummary = {
+      runId,
+      status: run.status,
+      category,
+      config,
+      queuedAt: run.queuedAt,
+      startedAt: run.startedAt,
+    }
+    this.emit(runId, 'created', created)
+    this.updateQueuePositions()
+    this.persist(runId, true)
     this.cleanupOldRuns()
 
     return run
   }
 
+  /**
+   * Promote the next queued run to active, if nothing else is running.
+   * The caller is responsible for actually executing the returned run.
+   */
+  startNextRun(): TestRun | null {
+    const activeRun = this.getActiveRun()
+    if (activeRun && ['queued', 'running'].includes(activeRun.status)) {
+      return null
+    }
+    this.activeRunId = null
+
+    while (this.queue.length > 0) {
+      const runId = this.queue.shift()!
+      const run = this.runs.get(runId)
+      if (!run || run.status !== 'queued') continue
+
+      this.activeRunId = runId
+      run.startedAt = new Date().toISOString()
+      delete run.queuePosition
+      this.updateQueuePositions()
+      this.persist(runId, true)
+      return run
+    }
+
+    return null
+  }
+
+  getQueue(): TestRun[] {
+    return this.queue
+      .map(runId => this.runs.get(runId))
+      .filter((run): run is TestRun => !!run)
+  }
+
   getRun(runId: string): TestRun | undefined {
-    return this.runs.get(runId)
+    const run = this.runs.get(runId)
+    if (run) return run
+
+    // Another instance sharing the store may have created it
+    const stored = this.store.load(runId)
+    if (stored) {
+      backfillSeqs(stored)
+      migrateRunScenarioIds(stored)
+      this.runs.set(runId, stored)
+    }
+    return stored
   }
 
   getActiveRun(): TestRun | null {
@@ -77,33 +221,66 @@ class TestRunManager {
     return this.runs.get(this.activeRunId) ?? null
   }
 
-  updateStatus(runId: string, status: TestStatus): void {
+  /**
+   * `actor` is recorded as cancelledBy when a user cancels the run.
+   */
+  updateStatus(runId: string, status: TestStatus, actor?: string): void {
     const run = this.runs.get(runId)
     if (!run) return
+    // A finished run stays finished: the cancel route sets 'cancelled' before the
+    // killed process exits, and the executor reporting that again must not
+    // notify a second time
+    if (!isActiveStatus(run.status)) return
 
     run.status = status
-    if (status === 'completed' || status === 'failed' || status === 'cancelled') {
+    if (status === 'cancelled' && actor) {
+      run.cancelledBy = actor
+    }
+    const isFinished = status === 'completed' || status === 'failed' || status === 'cancelled'
+    if (isFinished) {
       run.completedAt = new Date().toISOString()
       if (this.activeRunId === runId) {
         this.activeRunId = null
       }
+      if (this.queue.includes(runId)) {
+        this.queue = this.queue.filter(id => id !== runId)
+        delete run.queuePosition
+        this.updateQueuePositions()
+      }
     }
 
+    // Emit first so the stored lastSeq includes this event
     this.emit(runId, 'status', { status })
+    this.persist(runId, true)
+
+    if (isFinished) {
+      this.notifyRunFinished(run)
+    }
   }
 
-  addLog(runId: string, type: LogEntry['type'], content: string): void {
+  /**
+   * @param source the test that printed the line, for test stdout and stderr
+   */
+  addLog(
+    runId: string,
+    type: LogEntry['type'],
+    content: string,
+    source?: Pick<LogEntry, 'scenarioId' | 'workerIndex'>
+  ): void {
     const run = this.runs.get(runId)
     if (!run) return
 
     const logEntry: LogEntry = {
+      seq: nextSeq(run),
       timestamp: new Date().toISOString(),
       type,
       content,
+      ...source,
     }
 
     run.logs.push(logEntry)
-    this.emit(runId, 'log', logEntry)
+    this.persist(runId)
+    this.notify(runId, 'log', logEntry, logEntry.seq!)
   }
 
   updateProgress(runId: string, progress: Partial<TestProgress>): void {
@@ -111,6 +288,7 @@ class TestRunManager {
     if (!run) return
 
     run.progress = { ...run.progress, ...progress }
+    this.persist(runId)
     this.emit(runId, 'progress', run.progress)
   }
 
@@ -125,6 +303,7 @@ class TestRunManager {
       run.scenarios.push(scenario)
     }
 
+    this.persist(runId)
     this.emit(runId, 'scenario', scenario)
   }
 
@@ -134,6 +313,15 @@ class TestRunManager {
 
     run.results = results
     this.emit(runId, 'complete', results)
+    this.persist(runId, true)
+  }
+
+  setReportUrl(runId: string, reportUrl: string): void {
+    const run = this.runs.get(runId)
+    if (!run) return
+
+    run.reportUrl = reportUrl
+    this.persist(runId, true)
   }
 
   subscribe(runId: string, callback: EventCallback): () => void {
@@ -153,18 +341,66 @@ class TestRunManager {
     }
   }
 
+  /**
+   * Register a listener for runs reaching a final status. Listeners are keyed,
+   * so registering again under the same key (e.g. after a hot reload)
+   * replaces the previous one.
+   */
+  onRunFinished(key: string, listener: RunFinishedListener): void {
+    this.runFinishedListeners.set(key, listener)
+  }
+
+  private notifyRunFinished(run: TestRun): void {
+    for (const [key, listener] of this.runFinishedListeners) {
+      try {
+        listener(run)
+      } catch (error) {
+        console.error(`[TestRunManager] Run finished listener "${key}" failed:`, error)
+      }
+    }
+  }
+
   private emit(runId: string, event: string, data: unknown): void {
-    const subs = this.subscriptions.get(runId)
-    if (subs) {
-      subs.forEach(callback => callback(event, data))
+    const run = this.runs.get(runId)
+    if (!run) return
+    this.notify(runId, event, data, nextSeq(run))
+  }
+
+  private notify(runId: string, event: string, data: unknown, seq: number): void {
+    for (const key of [runId, ALL_RUNS]) {
+      this.subscriptions.get(key)?.forEach(callback => callback(event, data, seq, runId))
     }
   }
 
   getHistory(limit = 20): TestRun[] {
-    const allRuns = Array.from(this.runs.values())
-    return allRuns
+    return this.queryHistory({ limit }).runs
+  }
+
+  /**
+   * Newest-first runs matching the query, with the total before paging.
+   */
+  queryHistory(query: TestHistoryQuery): { runs: TestRun[]; total: number } {
+    const from = query.from ? new Date(query.from).getTime() : null
+    const to = query.to ? new Date(query.to).getTime() : null
+
+    const matching = Array.from(this.runs.values())
+      .filter(run => {
+        if (query.status && run.status !== query.status) return false
+        if (query.category && run.category !== query.category) return false
+        if (query.config && run.config !== query.config) return false
+        const startedAt = new Date(run.startedAt).getTime()
+        if (from !== null && startedAt < from) return false
+        if (to !== null && startedAt > to) return false
+        return true
+      })
       .sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime())
-      .slice(0, limit)
+
+    const offset = query.offset ?? 0
+    const limit = query.limit ?? 20
+    return {
+      runs: matching.slice(offset, offset + limit),
+      total: matching.length,
+    }
   }
 
   canCancel(runId: string): boolean {
@@ -181,6 +417,8 @@ class TestRunManager {
         run.completedAt = new Date().toISOString()
         const clearedRunId = this.activeRunId
         this.activeRunId = null
+        this.persist(clearedRunId, true)
+        this.notifyRunFinished(run)
         return { cleared: true, runId: clearedRunId }
       }
     }
@@ -188,8 +426,20 @@ class TestRunManager {
     return { cleared: false }
   }
 
+  private updateQueuePositions(): void {
+    this.queue.forEach((runId, index) => {
+      const run = this.runs.get(runId)
+      if (!run || run.queuePosition === index + 1) return
+
+      run.queuePosition = index + 1
+      this.persist(runId)
+      this.emit(runId, 'queue', { position: run.queuePosition })
+    })
+  }
+
   private cleanupOldRuns(): void {
     const allRuns = Array.from(this.runs.entries())
+      .filter(([, run]) => !['queued', 'running'].includes(run.status))
     if (allRuns.length <= this.maxHistorySize) return
 
     allRuns.sort((a, b) =>
@@ -200,8 +450,116 @@ class TestRunManager {
     toRemove.forEach(([runId]) => {
       this.runs.delete(runId)
       this.subscriptions.delete(runId)
+      this.pendingPersist.delete(runId)
+      this.store.remove(runId)
+      removeRunArtifacts(runId)
     })
   }
+
+  /**
+   * Stop the timers of an instance that is being replaced, writing out
+   * anything still pending so the new instance restores it.
+   */
+  dispose(): void {
+    clearInterval(this.leaseTimer)
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer)
+      this.flushPersist()
+    }
+  }
+
+  /**
+   * Extend the lease of every queued or running run this process owns.
+   */
+  private renewLeases(): void {
+    for (const run of this.runs.values()) {
+      if (run.ownerId !== OWNER_ID || !isActiveStatus(run.status)) continue
+      run.leaseExpiresAt = getLeaseExpiry()
+      this.persist(run.runId)
+    }
+  }
+
+  /**
+   * Load stored runs. Queued or running runs whose lease expired belonged to
+   * a process that no longer exists, so they are closed out as failed. Runs
+   * of another live instance are left alone, and this process's own runs
+   * (after a hot reload or version bump) go back into its queue.
+   */
+  private restoreRuns(): void {
+    let stored: TestRun[]
+    try {
+      stored = this.store.loadAll()
+    } catch (error) {
+      console.error('[TestRunManager] Failed to load stored runs:', error)
+      return
+    }
+
+    for (const run of stored) {
+      backfillSeqs(run)
+      migrateRunScenarioIds(run)
+      // An owner with this host and pid but another boot id was an earlier
+      // process on this machine, so it's gone even if its lease hasn't run out
+      const isEarlierBoot = run.ownerId === PROCESS_ID || !!run.ownerId?.startsWith(`${PROCESS_ID}:`)
+      const isAbandoned = run.ownerId !== OWNER_ID && (
+        isEarlierBoot || !run.leaseExpiresAt || new Date(run.leaseExpiresAt).getTime() < Date.now()
+      )
+      if (isActiveStatus(run.status) && isAbandoned) {
+        run.status = 'failed'
+        run.completedAt = run.completedAt ?? new Date().toISOString()
+        delete run.queuePosition
+        run.logs.push({
+          seq: nextSeq(run),
+          timestamp: new Date().toISOString(),
+          type: 'error',
+          content: 'Run interrupted by a server restart',
+        })
+        this.saveNow(run)
+      } else if (run.ownerId === OWNER_ID && run.status === 'running') {
+        this.activeRunId = run.runId
+      } else if (run.ownerId === OWNER_ID && run.status === 'queued') {
+        this.queue.push(run.runId)
+      }
+      this.runs.set(run.runId, run)
+    }
+
+    this.queue.sort((a, b) =>
+      (this.runs.get(a)?.queuedAt ?? '').localeCompare(this.runs.get(b)?.queuedAt ?? '')
+    )
+    this.updateQueuePositions()
+  }
+
+  private persist(runId: string, immediate = false): void {
+    if (immediate) {
+      this.pendingPersist.delete(runId)
+      const run = this.runs.get(runId)
+      if (run) this.saveNow(run)
+      return
+    }
+
+    this.pendingPersist.add(runId)
+    if (!this.persistTimer) {
+      this.persistTimer = setTimeout(() => this.flushPersist(), PERSIST_DEBOUNCE_MS)
+    }
+  }
+
+  private flushPersist(): void {
+    this.persistTimer = null
+    const runIds = Array.from(this.pendingPersist)
+    this.pendingPersist.clear()
+
+    for (const runId of runIds) {
+      const run = this.runs.get(runId)
+      if (run) this.saveNow(run)
+    }
+  }
+
+  private saveNow(run: TestRun): void {
+    try {
+      this.store.save(run)
+    } catch (error) {
+      console.error(`[TestRunManager] Failed to persist run ${run.runId}:`, error)
+    }
+  }
 }
 
 export const testRunManager = TestRunManager.getInstance()
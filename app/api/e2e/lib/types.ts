@@ -1,19 +1,36 @@
 // E2E Dashboard Types - Shared between API and Frontend
 
 export type TestCategory = 'auth' | 'home' | 'project' | 'all'
-export type TestConfig = 'local' | 'staging' | 'hub'
+// Name of an environment target (see EnvironmentTarget)
+export type TestConfig = string
 export type TestStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
 export type TestScenarioStatus = 'pending' | 'running' | 'passed' | 'failed' | 'skipped'
+// What started a run: the dashboard/API or a schedule
+export type RunTrigger = 'manual' | 'schedule'
 
-export interface TestRunRequest {
+/**
+ * Narrows a run below its category. All given filters must match.
+ */
+export interface TestSelection {
+  files?: string[]
+  testIds?: string[]
+  grep?: string
+  grepInvert?: string
+}
+
+export interface TestRunRequest extends TestSelection {
   category: TestCategory
   config: TestConfig
+  // Split the run across this many Playwright processes (--shard=i/N)
+  shards?: number
 }
 
 export interface TestRunResponse {
   runId: string
   status: TestStatus
   streamUrl: string
+  queuePosition?: number
+  parentRunId?: string
 }
 
 export interface TestProgress {
@@ -31,6 +48,15 @@ export interface TestResult {
   scenarios: TestScenario[]
 }
 
+export interface TestAttachment {
+  name: string
+  contentType: string
+  // Path relative to the run's artifacts folder
+  path: string
+  url: string
+  retry: number
+}
+
 export interface TestScenario {
   id: string
   name: string
@@ -40,12 +66,18 @@ export interface TestScenario {
   duration?: number
   error?: string
   retries?: number
+  attachments?: TestAttachment[]
 }
 
 export interface LogEntry {
+  // Stream event id; missing on logs stored before ids existed
+  seq?: number
   timestamp: string
   type: 'stdout' | 'stderr' | 'info' | 'error'
   content: string
+  // Test that printed the line; only set on test stdout and stderr
+  scenarioId?: string
+  workerIndex?: number
 }
 
 export interface TestRun {
@@ -53,10 +85,27 @@ export interface TestRun {
   status: TestStatus
   category: TestCategory
   config: TestConfig
+  selection?: TestSelection
+  parentRunId?: string
+  shards?: number
+  triggeredBy?: RunTrigger
+  scheduleId?: string
+  // User or API token name; 'anonymous' when auth is disabled
+  startedBy?: string
+  cancelledBy?: string
+  // Process executing the run and until when it has claimed it; the owner
+  // renews the lease while the run is queued or running
+  ownerId?: string
+  leaseExpiresAt?: string
+  // Id of the latest stream event; SSE clients resume from it with Last-Event-ID
+  lastSeq?: number
+  queuedAt?: string
+  queuePosition?: number
   startedAt: string
   completedAt?: string
   progress: TestProgress
   results?: TestResult
+  reportUrl?: string
   logs: LogEntry[]
   scenarios: TestScenario[]
 }
@@ -77,12 +126,27 @@ export interface SSECompleteEvent {
   data: TestResult
 }
 
+export interface SSEQueueEvent {
+  type: 'queue'
+  data: { position: number }
+}
+
 export interface SSEErrorEvent {
   type: 'error'
   data: { message: string }
 }
 
-export type SSEEvent = SSELogEvent | SSEProgressEvent | SSECompleteEvent | SSEErrorEvent
+export type SSEEvent = SSELogEvent | SSEProgressEvent | SSECompleteEvent | SSEQueueEvent | SSEErrorEvent
+
+// Multiplexed stream (/api/e2e/events)
+export type RunEventName = 'created' | 'log' | 'progress' | 'scenario' | 'queue' | 'complete' | 'status'
+
+export interface RunEventMessage<T = unknown> {
+  runId: string
+  // The event's id in the run's own stream
+  seq: number
+  data: T
+}
 
 // History
 export interface TestRunSummary {
@@ -90,7 +154,310 @@ export interface TestRunSummary {
   status: TestStatus
   category: TestCategory
   config: TestConfig
+  parentRunId?: string
+  triggeredBy?: RunTrigger
+  scheduleId?: string
+  startedBy?: string
   startedAt: string
   completedAt?: string
   results?: TestResult
+  reportUrl?: string
+}
+
+export interface TestHistoryQuery {
+  status?: TestStatus
+  category?: TestCategory
+  config?: TestConfig
+  // ISO timestamps bounding startedAt
+  from?: string
+  to?: string
+  offset?: number
+  limit?: number
+}
+
+export interface TestHistoryResponse {
+  runs: TestRunSummary[]
+  total: number
+  offset: number
+  limit: number
+}
+
+// Export
+export type RunExportFormat = 'junit' | 'json' | 'markdown' | 'csv'
+
+// Log search
+export interface RunLogsQuery {
+  // Case-insensitive text, matched without terminal colours
+  q?: string
+  type?: LogEntry['type'][]
+  // Scenario id
+  scenario?: string
+  offset?: number
+  limit?: number
+}
+
+export interface IndexedLogEntry extends LogEntry {
+  // Position in the run's full log
+  index: number
+}
+
+export interface RunLogsResponse {
+  runId: string
+  // Matching lines before paging
+  total: number
+  offset: number
+  limit: number
+  logs: IndexedLogEntry[]
+}
+
+// Queue
+export interface QueuedRunSummary {
+  runId: string
+  status: TestStatus
+  category: TestCategory
+  config: TestConfig
+  queuedAt?: string
+  startedAt: string
+  queuePosition?: number
+}
+
+export interface RunQueueResponse {
+  active: QueuedRunSummary | null
+  queued: QueuedRunSummary[]
+}
+
+// Flakiness
+export interface FlakyTestStats {
+  scenarioId: string
+  name: string
+  file: string
+  // Runs in which the scenario finished as passed or failed
+  runs: number
+  passed: number
+  failed: number
+  passRate: number
+  passedOnRetry: number
+  // Passed/failed changes between consecutive runs
+  flips: number
+  flipRate: number
+  score: number
+  lastStatus: TestScenarioStatus
+  lastRunAt: string
+}
+
+export interface FlakyTestsResponse {
+  analyzedRuns: number
+  tests: FlakyTestStats[]
+}
+
+// Durations
+export interface DurationSample {
+  runId: string
+  duration: number
+  recordedAt: string
+}
+
+export interface ScenarioDurationTrend {
+  scenarioId: string
+  // Oldest first
+  samples: DurationSample[]
+  latest: number | null
+  // Median of the samples before the latest one
+  baseline: number | null
+  // latest / baseline - 1
+  change: number | null
+  regressed: boolean
+}
+
+export interface DurationTrendsResponse {
+  threshold: number
+  window: number
+  trends: ScenarioDurationTrend[]
+}
+
+// Comparison
+export type ScenarioChange =
+  | 'newly-failing'
+  | 'newly-passing'
+  | 'newly-skipped'
+  | 'added'
+  | 'removed'
+  | 'unchanged'
+
+export interface ScenarioComparison {
+  scenarioId: string
+  name: string
+  file: string
+  change: ScenarioChange
+  baseStatus: TestScenarioStatus | null
+  headStatus: TestScenarioStatus | null
+  baseDuration: number | null
+  headDuration: number | null
+  // headDuration - baseDuration, when both are known
+  durationDelta: number | null
+}
+
+export interface RunComparisonResponse {
+  base: TestRunSummary
+  head: TestRunSummary
+  summary: Record<ScenarioChange, number>
+  scenarios: ScenarioComparison[]
+}
+
+// Environments
+// 'setup' runs the Playwright setup project to log in first; 'none' skips it
+// (--no-deps) and relies on an existing storage state or a public target
+export type AuthStrategy = 'setup' | 'none'
+
+export interface EnvironmentTarget {
+  name: string
+  label?: string
+  baseUrl: string
+  // Playwright config file in the project root
+  configFile: string
+  // Extra environment variables for the Playwright process
+  env?: Record<string, string>
+  authStrategy: AuthStrategy
+  // Hub login app and API used by the auth setup (NEXT_PUBLIC_HUB_URL / API_BASE_URL)
+  hubUrl?: string
+  apiBaseUrl?: string
+  // Refuse to start runs while the target is down
+  blockWhenUnhealthy?: boolean
+  // Built-in targets are defined in code and can't be changed through the API
+  builtIn?: boolean
+}
+
+export interface EnvironmentsResponse {
+  // Only admins get env override values; everyone else gets their names
+  environments: Array<EnvironmentTarget & { envKeys?: string[] }>
+}
+
+export type HealthStatus = 'healthy' | 'degraded' | 'down'
+
+export interface EndpointHealth {
+  name: 'target' | 'hub' | 'api'
+  url: string
+  ok: boolean
+  statusCode?: number
+  latencyMs?: number
+  error?: string
+  tlsExpiresAt?: string
+  tlsDaysRemaining?: number
+}
+
+export interface EnvironmentHealth {
+  environment: string
+  status: HealthStatus
+  checkedAt: string
+  endpoints: EndpointHealth[]
+}
+
+// Schedules
+export interface TestSchedule {
+  id: string
+  name: string
+  // Five-field cron expression (or @hourly, @daily, ...), evaluated in UTC
+  cron: string
+  category: TestCategory
+  config: TestConfig
+  selection?: TestSelection
+  shards?: number
+  enabled: boolean
+  createdAt: string
+  nextRunAt?: string
+  lastRunAt?: string
+  lastRunId?: string
+  // Why the last trigger didn't start a run
+  lastError?: string
+}
+
+export type ScheduleInput = Pick<TestSchedule, 'name' | 'cron' | 'category' | 'config' | 'selection' | 'shards'> & {
+  enabled?: boolean
+}
+
+export interface ScheduleSummary extends TestSchedule {
+  lastRun?: TestRunSummary
+}
+
+export interface SchedulesResponse {
+  schedules: ScheduleSummary[]
+}
+
+export interface ScheduleTickResponse {
+  checkedAt: string
+  triggered: { scheduleId: string; runId: string }[]
+  errors: { scheduleId: string; error: string }[]
+}
+
+// Notifications
+export type NotificationChannelType = 'webhook' | 'slack' | 'email'
+// 'failure' fires for failed runs; 'status-change' when the status differs
+// from the previous finished run of the same category and environment
+export type NotificationRule = 'always' | 'failure' | 'status-change'
+
+export interface NotificationChannel {
+  name: string
+  type: NotificationChannelType
+  rule: NotificationRule
+  enabled: boolean
+  // Webhook or Slack incoming-webhook URL
+  url?: string
+  // Webhook only: HMAC-SHA256 key for the X-E2E-Signature header
+  secret?: string
+  // Email only: recipients (SMTP settings come from the environment)
+  to?: string[]
+  // Only notify for runs on these environments; all when omitted
+  configs?: string[]
+}
+
+export interface NotificationChannelsResponse {
+  // Secrets are never returned
+  channels: Array<Omit<NotificationChannel, 'secret'> & { hasSecret?: boolean }>
+}
+
+export interface RunNotificationPayload {
+  event: 'run.finished'
+  run: {
+    runId: string
+    status: TestStatus
+    category: TestCategory
+    config: TestConfig
+    triggeredBy?: RunTrigger
+    startedAt: string
+    completedAt?: string
+    passed: number
+    failed: number
+    skipped: number
+    duration?: number
+    url?: string
+    reportUrl?: string
+  }
+  previousStatus?: TestStatus
+  failedScenarios: { name: string; file: string; error?: string }[]
+}
+
+// Auth
+// viewer: read-only; runner: start runs and cancel their own; admin: everything
+export type UserRole = 'viewer' | 'runner' | 'admin'
+
+export interface AuthUser {
+  name: string
+  role: UserRole
+}
+
+export interface AuthSessionResponse {
+  // False when no users or API tokens are configured
+  authEnabled: boolean
+  user: AuthUser | null
+}
+
+// Source
+export interface SourceSnippet {
+  // Path from the repo root, e.g. e2e/pages/login.page.ts
+  file: string
+  line: number
+  // Line number of lines[0]
+  startLine: number
+  lines: string[]
+  totalLines: number
 }
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getChannel, redactChannel, removeChannel } from '../../lib/notification-channels'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  const { name } = await params
+
+  const channel = getChannel(name)
+  if (!channel) {
+    return NextResponse.json(
+      { error: 'Channel not found' },
+      { status: 404 }
+    )
+  }
+
+  return NextResponse.json(redactChannel(channel))
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  const { name } = await params
+
+  try {
+    if (!removeChannel(name)) {
+      return NextResponse.json(
+        { error: 'Channel not found' },
+        { status: 404 }
+      )
+    }
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to remove channel' },
+      { status: 500 }
+    )
+  }
+
+  return NextResponse.json({ success: true })
+}
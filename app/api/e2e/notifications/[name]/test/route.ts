@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { testRunManager } from '../../../lib/test-run-manager'
+import { getChannel } from '../../../lib/notification-channels'
+import { buildRunPayload, sendNotification } from '../../../lib/notifications'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+/**
+ * Send the most recent finished run to a channel, ignoring its rule.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  const { name } = await params
+
+  const channel = getChannel(name)
+  if (!channel) {
+    return NextResponse.json(
+      { error: 'Channel not found' },
+      { status: 404 }
+    )
+  }
+
+  const run = testRunManager
+    .queryHistory({ limit: 50 })
+    .runs.find(item => ['completed', 'failed', 'cancelled'].includes(item.status))
+  if (!run) {
+    return NextResponse.json(
+      { error: 'No finished run to send' },
+      { status: 409 }
+    )
+  }
+
+  try {
+    await sendNotification(channel, buildRunPayload(run))
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to send notification' },
+      { status: 502 }
+    )
+  }
+
+  return NextResponse.json({ success: true, runId: run.runId })
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getChannel, listChannels, redactChannel, saveChannel, validateChannel } from '../lib/notification-channels'
+import type { NotificationChannel, NotificationChannelsResponse } from '../lib/types'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  const response: NotificationChannelsResponse = { channels: listChannels().map(redactChannel) }
+  return NextResponse.json(response)
+}
+
+export async function POST(request: NextRequest) {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  const error = validateChannel(body)
+  if (error) {
+    return NextResponse.json({ error }, { status: 400 })
+  }
+
+  // Posting an existing name replaces that channel
+  const channel = body as NotificationChannel
+  const exists = !!getChannel(channel.name)
+  try {
+    return NextResponse.json(redactChannel(saveChannel(channel)), { status: exists ? 200 : 201 })
+  } catch (saveError) {
+    return NextResponse.json(
+      { error: saveError instanceof Error ? saveError.message : 'Failed to save channel' },
+      { status: 500 }
+    )
+  }
+}
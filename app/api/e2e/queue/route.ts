@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server'
+import { testRunManager } from '../lib/test-run-manager'
+import type { QueuedRunSummary, RunQueueResponse, TestRun } from '../lib/types'
+
+export const dynamic = 'force-dynamic'
+
+function toSummary(run: TestRun): QueuedRunSummary {
+  return {
+    runId: run.runId,
+    status: run.status,
+    category: run.category,
+    config: run.config,
+    queuedAt: run.queuedAt,
+    startedAt: run.startedAt,
+    queuePosition: run.queuePosition,
+  }
+}
+
+export async function GET() {
+  const activeRun = testRunManager.getActiveRun()
+
+  const response: RunQueueResponse = {
+    active: activeRun && ['queued', 'running'].includes(activeRun.status) ? toSummary(activeRun) : null,
+    queued: testRunManager.getQueue().map(toSummary),
+  }
+
+  return NextResponse.json(response)
+}
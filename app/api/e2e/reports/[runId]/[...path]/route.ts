@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import fs from 'fs'
+import { Readable } from 'stream'
+import { testRunManager } from '../../../lib/test-run-manager'
+import { getRunReportDir, getContentType, resolveInside } from '../../../lib/artifacts'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+/**
+ * Serves a run's Playwright HTML report (index.html plus its data/ and trace/ folders).
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ runId: string; path: string[] }> }
+) {
+  const { runId, path: segments } = await params
+
+  if (!testRunManager.getRun(runId)) {
+    return NextResponse.json(
+      { error: 'Run not found' },
+      { status: 404 }
+    )
+  }
+
+  const filePath = resolveInside(getRunReportDir(runId), segments.join('/'))
+  if (!filePath || !fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+    return NextResponse.json(
+      { error: 'Report file not found' },
+      { status: 404 }
+    )
+  }
+
+  const headers: Record<string, string> = {
+    'Content-Type': getContentType(filePath),
+    'Content-Length': String(fs.statSync(filePath).size),
+    'Cache-Control': 'private, max-age=3600',
+    'X-Content-Type-Options': 'nosniff',
+  }
+  // Only the report page and its trace viewer are Playwright's own code; data/
+  // holds the attachments tests saved, which get the same sandbox as /artifacts
+  const relativePath = segments.join('/')
+  if (relativePath !== 'index.html' && !relativePath.startsWith('trace/')) {
+    headers['Content-Security-Policy'] = 'sandbox'
+  }
+
+  const stream = Readable.toWeb(fs.createReadStream(filePath)) as ReadableStream
+  return new Response(stream, { headers })
+}
@@ -1,9 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { testRunManager } from '../lib/test-run-manager'
+import { processQueue } from '../lib/playwright-executor'
 
 export async function POST(request: NextRequest) {
   try {
     const result = testRunManager.forceReset()
+    processQueue()
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { testRunManager } from '../../../lib/test-run-manager'
+import { processQueue, canExecuteTests } from '../../../lib/playwright-executor'
+import { getRequestUser } from '../../../lib/auth'
+import type { TestRunResponse } from '../../../lib/types'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ runId: string }> }
+) {
+  try {
+    const canExecute = canExecuteTests()
+    if (!canExecute.allowed) {
+      return NextResponse.json(
+        { error: canExecute.reason },
+        { status: 403 }
+      )
+    }
+
+    const { runId } = await params
+
+    const parentRun = testRunManager.getRun(runId)
+    if (!parentRun) {
+      return NextResponse.json(
+        { error: 'Run not found' },
+        { status: 404 }
+      )
+    }
+
+    if (['queued', 'running'].includes(parentRun.status)) {
+      return NextResponse.json(
+        { error: 'Run has not finished yet' },
+        { status: 400 }
+      )
+    }
+
+    const failedTestIds = parentRun.scenarios
+      .filter(scenario => scenario.status === 'failed')
+      .map(scenario => scenario.id)
+
+    if (failedTestIds.length === 0) {
+      return NextResponse.json(
+        { error: 'Run has no failed scenarios to re-run' },
+        { status: 400 }
+      )
+    }
+
+    const run = testRunManager.createRun(parentRun.category, parentRun.config, {
+      selection: { testIds: failedTestIds },
+      parentRunId: parentRun.runId,
+      startedBy: getRequestUser(request).name,
+    })
+    processQueue()
+
+    const response: TestRunResponse = {
+      runId: run.runId,
+      status: run.status,
+      streamUrl: `/api/e2e/stream/${run.runId}`,
+      queuePosition: run.queuePosition,
+      parentRunId: run.parentRunId,
+    }
+
+    return NextResponse.json(response, { status: 201 })
+  } catch (error) {
+    console.error('Failed to re-run failed tests:', error)
+
+    if (error instanceof Error && error.message.includes('queue is full')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to re-run failed tests' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { testRunManager } from '../lib/test-run-manager'
-import { executePlaywrightTests, canExecuteTests } from '../lib/playwright-executor'
-import type { TestCategory, TestConfig, TestRunResponse } from '../lib/types'
-
-const VALID_CATEGORIES: TestCategory[] = ['auth', 'home', 'project', 'all']
-const VALID_CONFIGS: TestConfig[] = ['local', 'staging', 'hub']
+import { processQueue, canExecuteTests } from '../lib/playwright-executor'
+import { getEnvironment, listEnvironments } from '../lib/environments'
+import { checkEnvironmentHealth } from '../lib/environment-health'
+import { parseSelection, MAX_SHARDS, VALID_CATEGORIES } from '../lib/run-selection'
+import { getRequestUser } from '../lib/auth'
+import type { TestRunRequest, TestRunResponse } from '../lib/types'
 
 export async function POST(request: NextRequest) {
   try {
@@ -16,8 +17,8 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const body = await request.json()
-    const { category, config } = body as { category?: TestCategory; config?: TestConfig }
+    const body = await request.json() as Partial<TestRunRequest>
+    const { category, config } = body
 
     if (!category || !VALID_CATEGORIES.includes(category)) {
       return NextResponse.json(
@@ -26,30 +27,60 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    if (!config || !VALID_CONFIGS.includes(config)) {
+    const environment = typeof config === 'string' ? getEnvironment(config) : undefined
+    if (!environment) {
+      const names = listEnvironments().map(target => target.name)
+      return NextResponse.json(
+        { error: `Invalid config. Must be one of: ${names.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const { selection, error: selectionError } = parseSelection(body)
+    if (selectionError) {
       return NextResponse.json(
-        { error: `Invalid config. Must be one of: ${VALID_CONFIGS.join(', ')}` },
+        { error: selectionError },
         { status: 400 }
       )
     }
 
-    const run = testRunManager.createRun(category, config)
+    const { shards } = body
+    if (shards !== undefined && (!Number.isInteger(shards) || shards < 1 || shards > MAX_SHARDS)) {
+      return NextResponse.json(
+        { error: `Invalid shards. Must be an integer between 1 and ${MAX_SHARDS}` },
+        { status: 400 }
+      )
+    }
+
+    if (environment.blockWhenUnhealthy) {
+      const health = await checkEnvironmentHealth(environment)
+      if (health.status === 'down') {
+        return NextResponse.json(
+          { error: `Environment "${environment.name}" is down`, health },
+          { status: 503 }
+        )
+      }
+    }
 
-    executePlaywrightTests(run.runId).catch(error => {
-      console.error(`Test execution failed for run ${run.runId}:`, error)
+    const run = testRunManager.createRun(category, environment.name, {
+      selection,
+      shards: shards && shards > 1 ? shards : undefined,
+      startedBy: getRequestUser(request).name,
     })
+    processQueue()
 
     const response: TestRunResponse = {
       runId: run.runId,
       status: run.status,
       streamUrl: `/api/e2e/stream/${run.runId}`,
+      queuePosition: run.queuePosition,
     }
 
     return NextResponse.json(response, { status: 201 })
   } catch (error) {
     console.error('Failed to create test run:', error)
 
-    if (error instanceof Error && error.message.includes('already in progress')) {
+    if (error instanceof Error && error.message.includes('queue is full')) {
       return NextResponse.json(
         { error: error.message },
         { status: 409 }
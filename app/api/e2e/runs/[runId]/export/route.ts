@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { testRunManager } from '../../../lib/test-run-manager'
+import { getRunUrl } from '../../../lib/notifications'
+import { EXPORT_FORMATS, formatRun, isExportFormat } from '../../../lib/result-formatters'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ runId: string }> }
+) {
+  const { runId } = await params
+  const { searchParams } = new URL(request.url)
+
+  const format = searchParams.get('format') || 'json'
+  if (!isExportFormat(format)) {
+    return NextResponse.json(
+      { error: `Invalid format. Must be one of: ${Object.keys(EXPORT_FORMATS).join(', ')}` },
+      { status: 400 }
+    )
+  }
+
+  const run = testRunManager.getRun(runId)
+  if (!run) {
+    return NextResponse.json(
+      { error: 'Run not found' },
+      { status: 404 }
+    )
+  }
+
+  const runUrl = getRunUrl(run.runId) ?? `${request.nextUrl.origin}/runs/${run.runId}`
+  const { contentType, extension } = EXPORT_FORMATS[format]
+  const headers: Record<string, string> = {
+    'Content-Type': contentType,
+    'Cache-Control': 'no-store',
+  }
+  if (searchParams.get('download')) {
+    headers['Content-Disposition'] = `attachment; filename="e2e-${run.runId}.${extension}"`
+  }
+
+  return new Response(formatRun(run, format, runUrl), { headers })
+}
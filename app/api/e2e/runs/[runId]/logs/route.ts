@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { testRunManager } from '../../../lib/test-run-manager'
+import { DEFAULT_LOG_PAGE_SIZE, findScenario, LOG_TYPES, MAX_LOG_PAGE_SIZE, searchLogs } from '../../../lib/log-search'
+import type { LogEntry } from '../../../lib/types'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ runId: string }> }
+) {
+  const { runId } = await params
+  const { searchParams } = new URL(request.url)
+
+  const run = testRunManager.getRun(runId)
+  if (!run) {
+    return NextResponse.json(
+      { error: 'Run not found' },
+      { status: 404 }
+    )
+  }
+
+  const types = (searchParams.get('type') || '').split(',').filter(Boolean)
+  const unknownType = types.find(type => !LOG_TYPES.includes(type as LogEntry['type']))
+  if (unknownType) {
+    return NextResponse.json(
+      { error: `Invalid type "${unknownType}". Must be one of: ${LOG_TYPES.join(', ')}` },
+      { status: 400 }
+    )
+  }
+
+  const scenario = searchParams.get('scenario') || undefined
+  if (scenario && !findScenario(run, scenario)) {
+    return NextResponse.json(
+      { error: 'Scenario not found in this run' },
+      { status: 404 }
+    )
+  }
+
+  // limit=0 only counts the matches
+  const limitParam = parseInt(searchParams.get('limit') || '', 10)
+  const limit = Number.isNaN(limitParam)
+    ? DEFAULT_LOG_PAGE_SIZE
+    : Math.min(Math.max(limitParam, 0), MAX_LOG_PAGE_SIZE)
+  const offset = Math.max(parseInt(searchParams.get('offset') || '0', 10) || 0, 0)
+
+  return NextResponse.json(searchLogs(run, {
+    q: searchParams.get('q') || undefined,
+    type: types as LogEntry['type'][],
+    scenario,
+    offset,
+    limit,
+  }))
+}
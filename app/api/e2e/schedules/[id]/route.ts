@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSchedule, removeSchedule, updateSchedule, validateSchedule } from '../../lib/schedules'
+import type { ScheduleInput } from '../../lib/types'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+
+  const schedule = getSchedule(id)
+  if (!schedule) {
+    return NextResponse.json(
+      { error: 'Schedule not found' },
+      { status: 404 }
+    )
+  }
+
+  return NextResponse.json(schedule)
+}
+
+/**
+ * Update some fields of a schedule, e.g. { enabled: false } to pause it.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+
+  const schedule = getSchedule(id)
+  if (!schedule) {
+    return NextResponse.json(
+      { error: 'Schedule not found' },
+      { status: 404 }
+    )
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+  if (!body || typeof body !== 'object') {
+    return NextResponse.json({ error: 'Schedule must be an object' }, { status: 400 })
+  }
+
+  const merged: ScheduleInput = {
+    name: schedule.name,
+    cron: schedule.cron,
+    category: schedule.category,
+    config: schedule.config,
+    selection: schedule.selection,
+    shards: schedule.shards,
+    enabled: schedule.enabled,
+    ...(body as Partial<ScheduleInput>),
+  }
+  const error = validateSchedule(merged)
+  if (error) {
+    return NextResponse.json({ error }, { status: 400 })
+  }
+
+  return NextResponse.json(updateSchedule(id, merged))
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+
+  if (!removeSchedule(id)) {
+    return NextResponse.json(
+      { error: 'Schedule not found' },
+      { status: 404 }
+    )
+  }
+
+  return NextResponse.json({ success: true })
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { testRunManager } from '../lib/test-run-manager'
+import { createSchedule, listSchedules, validateSchedule } from '../lib/schedules'
+import type { ScheduleInput, ScheduleSummary, SchedulesResponse, TestRun, TestRunSummary, TestSchedule } from '../lib/types'
+
+export const dynamic = 'force-dynamic'
+
+function toSummary(run: TestRun): TestRunSummary {
+  return {
+    runId: run.runId,
+    status: run.status,
+    category: run.category,
+    config: run.config,
+    triggeredBy: run.triggeredBy,
+    scheduleId: run.scheduleId,
+    startedBy: run.startedBy,
+    startedAt: run.startedAt,
+    completedAt: run.completedAt,
+    // Only the counts are shown; keep the list payload small
+    results: run.results && { ...run.results, scenarios: [] },
+    reportUrl: run.reportUrl,
+  }
+}
+
+function withLastRun(schedule: TestSchedule): ScheduleSummary {
+  const run = schedule.lastRunId ? testRunManager.getRun(schedule.lastRunId) : undefined
+  return run ? { ...schedule, lastRun: toSummary(run) } : schedule
+}
+
+export async function GET() {
+  const response: SchedulesResponse = { schedules: listSchedules().map(withLastRun) }
+  return NextResponse.json(response)
+}
+
+export async function POST(request: NextRequest) {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  const error = validateSchedule(body)
+  if (error) {
+    return NextResponse.json({ error }, { status: 400 })
+  }
+
+  return NextResponse.json(createSchedule(body as ScheduleInput), { status: 201 })
+}
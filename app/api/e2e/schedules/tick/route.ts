@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { runDueSchedules } from '../../lib/scheduler'
+import { getRequestUser, hasRole, isAuthEnabled } from '../../lib/auth'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Vercel cron jobs send "Authorization: Bearer $CRON_SECRET" when it is set.
+ * Signed-in admins may also trigger a tick by hand.
+ */
+function isAuthorized(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET
+  if (!secret) return true
+  if (request.headers.get('authorization') === `Bearer ${secret}`) return true
+  return isAuthEnabled() && hasRole(getRequestUser(request), 'admin')
+}
+
+async function tick(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  return NextResponse.json(runDueSchedules())
+}
+
+// Vercel cron uses GET; POST is for manual or external triggers
+export const GET = tick
+export const POST = tick
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { DEFAULT_SOURCE_CONTEXT, MAX_SOURCE_CONTEXT, readSourceSnippet } from '../lib/source-files'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+/**
+ * Lines of a spec or page object around a stack frame.
+ *
+ * ?file=e2e/pages/login.page.ts&line=42&context=10
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl
+  const file = searchParams.get('file')
+  const line = Number(searchParams.get('line'))
+
+  if (!file) {
+    return NextResponse.json(
+      { error: 'Missing file' },
+      { status: 400 }
+    )
+  }
+
+  if (!Number.isInteger(line) || line < 1) {
+    return NextResponse.json(
+      { error: 'line must be a positive integer' },
+      { status: 400 }
+    )
+  }
+
+  const contextParam = parseInt(searchParams.get('context') || '', 10)
+  const context = Number.isNaN(contextParam)
+    ? DEFAULT_SOURCE_CONTEXT
+    : Math.min(Math.max(contextParam, 0), MAX_SOURCE_CONTEXT)
+
+  const snippet = readSourceSnippet(file, line, context)
+  if (!snippet) {
+    return NextResponse.json(
+      { error: 'Source file not found' },
+      { status: 404 }
+    )
+  }
+
+  return NextResponse.json(snippet)
+}
@@ -20,9 +20,19 @@ export async function GET(
     status: run.status,
     category: run.category,
     config: run.config,
+    selection: run.selection,
+    parentRunId: run.parentRunId,
+    shards: run.shards,
+    triggeredBy: run.triggeredBy,
+    scheduleId: run.scheduleId,
+    startedBy: run.startedBy,
+    cancelledBy: run.cancelledBy,
+    queuedAt: run.queuedAt,
+    queuePosition: run.queuePosition,
     startedAt: run.startedAt,
     completedAt: run.completedAt,
     progress: run.progress,
     results: run.results,
+    reportUrl: run.reportUrl,
   })
 }
@@ -1,5 +1,7 @@
 import { NextRequest } from 'next/server'
 import { testRunManager } from '../../lib/test-run-manager'
+import { createEventStream, getLastEventId, isFinishedStatus, replayRunEvents } from '../../lib/run-events'
+import type { TestStatus } from '../../lib/types'
 
 export const dynamic = 'force-dynamic'
 export const runtime = 'nodejs'
@@ -15,7 +17,7 @@ export async function GET(
     if (!run) {
       return new Response(JSON.stringify({
         error: 'Run not found',
-        message: 'The test run may have been lost due to server restart. Please try running the tests again.',
+        message: 'The test run does not exist or was removed from history. Please try running the tests again.',
         runId
       }), {
         status: 404,
@@ -23,89 +25,22 @@ export async function GET(
       })
     }
 
-    const encoder = new TextEncoder()
+    const lastEventId = getLastEventId(request)
 
-    const stream = new ReadableStream({
-      start(controller) {
-        let isClosed = false
+    return createEventStream(request, ({ send, close }) => {
+      replayRunEvents(run, lastEventId, send)
+      if (isFinishedStatus(run.status)) {
+        close()
+        return
+      }
 
-        const safeClose = () => {
-          if (!isClosed) {
-            isClosed = true
-            try {
-              controller.close()
-            } catch {
-              // Already closed
-            }
-          }
-        }
-
-        const sendEvent = (event: string, data: unknown) => {
-          if (isClosed) return
-          try {
-            const eventData = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
-            controller.enqueue(encoder.encode(eventData))
-          } catch {
-            isClosed = true
-          }
-        }
-
-        if (run.logs) {
-          for (const log of run.logs) {
-            sendEvent('log', log)
-          }
-        }
-
-        if (run.progress) {
-          sendEvent('progress', run.progress)
-        }
+      return testRunManager.subscribe(runId, (event, data, seq) => {
+        send(event, data, seq)
 
-        if (run.scenarios) {
-          for (const scenario of run.scenarios) {
-            sendEvent('scenario', scenario)
-          }
+        if (event === 'status' && isFinishedStatus((data as { status: TestStatus }).status)) {
+          setTimeout(close, 100)
         }
-
-        if (['completed', 'failed', 'cancelled'].includes(run.status)) {
-          if (run.results) {
-            sendEvent('complete', run.results)
-          }
-          sendEvent('status', { status: run.status })
-          safeClose()
-          return
-        }
-
-        const unsubscribe = testRunManager.subscribe(runId, (event, data) => {
-          try {
-            sendEvent(event, data)
-
-            if (event === 'status') {
-              const statusData = data as { status: string }
-              if (['completed', 'failed', 'cancelled'].includes(statusData.status)) {
-                setTimeout(() => {
-                  safeClose()
-                }, 100)
-              }
-            }
-          } catch {
-            unsubscribe()
-          }
-        })
-
-        request.signal.addEventListener('abort', () => {
-          unsubscribe()
-          safeClose()
-        })
-      },
-    })
-
-    return new Response(stream, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache, no-transform',
-        'Connection': 'keep-alive',
-        'X-Accel-Buffering': 'no',
-      },
+      })
     })
   } catch (error) {
     console.error('SSE stream error:', error)
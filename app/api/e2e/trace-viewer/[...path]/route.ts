@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import fs from 'fs'
+import path from 'path'
+import { getContentType, resolveInside } from '../../lib/artifacts'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// Static build of the trace viewer that ships with playwright-core
+const TRACE_VIEWER_DIR = path.join(process.cwd(), 'node_modules', 'playwright-core', 'lib', 'vite', 'traceViewer')
+
+/**
+ * Serves the Playwright trace viewer. Open it as
+ * /api/e2e/trace-viewer/index.html?trace=<absolute trace.zip url>
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ path: string[] }> }
+) {
+  const { path: segments } = await params
+
+  const filePath = resolveInside(TRACE_VIEWER_DIR, segments.join('/'))
+  if (!filePath || !fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+    return NextResponse.json(
+      { error: 'Not found' },
+      { status: 404 }
+    )
+  }
+
+  // Asset names are content-hashed; the entry points and service worker are not
+  const isHashedAsset = /\.[\w-]{8,}\.(js|css)$/.test(filePath) || filePath.includes(`${path.sep}assets${path.sep}`)
+
+  return new Response(fs.readFileSync(filePath), {
+    headers: {
+      'Content-Type': getContentType(filePath),
+      'Cache-Control': isHashedAsset ? 'public, max-age=31536000, immutable' : 'no-cache',
+    },
+  })
+}
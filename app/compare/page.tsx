@@ -0,0 +1,96 @@
+'use client'
+
+import { Suspense } from 'react'
+import Link from 'next/link'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { ArrowLeft, GitCompare } from 'lucide-react'
+import { RunComparison } from '@/components'
+import { useTestHistory } from '@/hooks/queries'
+import type { TestRunSummary } from '@/types'
+
+function RunPicker({
+  label,
+  value,
+  runs,
+  onChange,
+}: {
+  label: string
+  value: string
+  runs: TestRunSummary[]
+  onChange: (runId: string) => void
+}) {
+  return (
+    <label className="flex items-center gap-2 text-xs text-gray-400">
+      {label}
+      <select
+        value={value}
+        onChange={e => onChange(e.target.value)}
+        className="w-72 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm text-gray-200"
+      >
+        <option value="">Select a run</option>
+        {runs.map(run => (
+          <option key={run.runId} value={run.runId}>
+            {run.runId.slice(0, 8)} · {run.status} · {run.category} · {new Date(run.startedAt).toLocaleString()}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+}
+
+function ComparePageContent() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const base = searchParams.get('base') ?? ''
+  const head = searchParams.get('head') ?? ''
+
+  const { data } = useTestHistory({ limit: 100 })
+  const runs = data?.runs ?? []
+
+  const setRun = (key: 'base' | 'head', runId: string) => {
+    const params = new URLSearchParams(searchParams.toString())
+    if (runId) {
+      params.set(key, runId)
+    } else {
+      params.delete(key)
+    }
+    router.replace(`/compare?${params}`)
+  }
+
+  return (
+    <div className="h-screen bg-gray-900 flex flex-col overflow-hidden">
+      <div className="flex-shrink-0 bg-gray-800 border-b border-gray-700 px-4 py-3">
+        <div className="flex items-center gap-4">
+          <Link
+            href="/runs"
+            className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-gray-700 transition-colors"
+            title="Back to run history"
+          >
+            <ArrowLeft className="w-4 h-4" />
+          </Link>
+          <h1 className="text-lg font-semibold text-white">Compare Runs</h1>
+          <RunPicker label="Base" value={base} runs={runs} onChange={runId => setRun('base', runId)} />
+          <RunPicker label="Head" value={head} runs={runs} onChange={runId => setRun('head', runId)} />
+        </div>
+      </div>
+
+      {base && head ? (
+        <RunComparison base={base} head={head} className="flex-1 min-h-0 overflow-hidden" />
+      ) : (
+        <div className="flex-1 flex flex-col items-center justify-center gap-2 text-sm text-gray-500">
+          <GitCompare className="w-8 h-8" />
+          Pick a base and a head run to compare
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function ComparePage() {
+  // useSearchParams needs a Suspense boundary when the page is prerendered
+  return (
+    <Suspense>
+      <ComparePageContent />
+    </Suspense>
+  )
+}
@@ -0,0 +1,84 @@
+'use client'
+
+import { Suspense, useState, type FormEvent } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { Loader2, LogIn } from 'lucide-react'
+import { useLogin } from '@/hooks/mutations'
+
+const inputClass = 'w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm text-gray-200 focus:outline-none focus:border-brand'
+
+// Only follow same-site paths after signing in
+function getSafeRedirect(next: string | null): string {
+  if (!next || !next.startsWith('/')) return '/'
+  // Browsers read /\evil.com (or one with a tab after the first slash) as
+  // //evil.com, so resolve it the way they do and keep it only on this origin
+  try {
+    const url = new URL(next, window.location.origin)
+    return url.origin === window.location.origin ? `${url.pathname}${url.search}${url.hash}` : '/'
+  } catch {
+    return '/'
+  }
+}
+
+function LoginForm() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const [username, setUsername] = useState('')
+  const [password, setPassword] = useState('')
+  const { mutate: login, isPending, error } = useLogin()
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault()
+    login(
+      { username, password },
+      { onSuccess: () => router.replace(getSafeRedirect(searchParams.get('next'))) }
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="w-80 flex flex-col gap-4 p-6 bg-gray-800 border border-gray-700 rounded-lg">
+      <h1 className="text-lg font-semibold text-white">E2E Test Dashboard</h1>
+      <label className="flex flex-col gap-1 text-xs text-gray-400">
+        Username
+        <input
+          value={username}
+          onChange={e => setUsername(e.target.value)}
+          autoComplete="username"
+          autoFocus
+          required
+          className={inputClass}
+        />
+      </label>
+      <label className="flex flex-col gap-1 text-xs text-gray-400">
+        Password
+        <input
+          type="password"
+          value={password}
+          onChange={e => setPassword(e.target.value)}
+          autoComplete="current-password"
+          required
+          className={inputClass}
+        />
+      </label>
+      {error && <span className="text-xs text-red-400">{error.message}</span>}
+      <button
+        type="submit"
+        disabled={isPending}
+        className="flex items-center justify-center gap-2 px-4 py-2 rounded-lg font-medium bg-brand hover:bg-brand/90 text-white disabled:opacity-50"
+      >
+        {isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <LogIn className="w-4 h-4" />}
+        Sign in
+      </button>
+    </form>
+  )
+}
+
+export default function LoginPage() {
+  return (
+    <div className="h-screen bg-gray-900 flex items-center justify-center">
+      <Suspense>
+        <LoginForm />
+      </Suspense>
+    </div>
+  )
+}
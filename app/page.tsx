@@ -1,10 +1,11 @@
 'use client'
 
-import { useActiveRunId, useShowReport, useIsCompleted, useIsRunning, useSelectedCategory, useE2EDashboardStore } from '@/store/e2e-store'
-import { useSSEStream } from '@/hooks/use-sse-stream'
+import { useActiveRunId, useShowReport, useIsCompleted, useIsRunning, useSelectedCategory, useSelectedTestIds, useSelectedShards, useQueuePosition, useE2EDashboardStore } from '@/store/e2e-store'
+import { useRunEvents } from '@/hooks/use-run-events'
 import { useStartTest, useCancelTest, useResetTests } from '@/hooks/mutations'
-import { TerminalViewer, TestScenarioList, TestReport } from '@/components'
-import { Play, Server, Loader2, StopCircle, RotateCcw } from 'lucide-react'
+import { useAuthSession } from '@/hooks/queries'
+import { TerminalViewer, TestScenarioList, TestReport, RunQueue, RunHistoryMenu, EnvironmentPicker, UserMenu } from '@/components'
+import { Play, Loader2, StopCircle, RotateCcw } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import type { TestCategory } from '@/types'
 
@@ -15,22 +16,29 @@ const CATEGORIES: { value: TestCategory; label: string }[] = [
   { value: 'project', label: 'Project' },
 ]
 
+const SHARD_OPTIONS = [1, 2, 3, 4]
+
 export default function E2EDashboardPage() {
   const activeRunId = useActiveRunId()
   const showReport = useShowReport()
   const isCompleted = useIsCompleted()
   const isRunning = useIsRunning()
   const selectedCategory = useSelectedCategory()
-  const { setCategory } = useE2EDashboardStore()
+  const selectedTestIds = useSelectedTestIds()
+  const queuePosition = useQueuePosition()
+  const selectedShards = useSelectedShards()
+  const { setCategory, setShards } = useE2EDashboardStore()
 
   const { mutate: startTest, isPending: isStartPending } = useStartTest()
   const { mutate: cancelTest, isPending: isCancelPending } = useCancelTest()
   const { mutate: resetTests, isPending: isResetPending } = useResetTests()
+  const { data: session } = useAuthSession()
+  const canRun = !session?.user || session.user.role !== 'viewer'
 
-  useSSEStream({ runId: activeRunId, enabled: !!activeRunId })
+  useRunEvents({ runId: activeRunId })
 
   const handleRun = () => {
-    startTest({ category: selectedCategory, config: 'staging' })
+    startTest({ category: selectedCategory })
   }
 
   const handleStop = () => {
@@ -75,18 +83,28 @@ export default function E2EDashboardPage() {
             </div>
           </div>
 
-          {/* Center: Environment Badge */}
-          <div className="flex items-center gap-2 px-3 py-1.5 bg-gray-700 rounded-lg">
-            <Server className="w-4 h-4 text-brand" />
-            <span className="text-sm text-gray-300">Staging</span>
-            <span className="px-1.5 py-0.5 text-[10px] font-medium bg-green-500 text-white rounded">
-              OK
-            </span>
-          </div>
+          {/* Center: Environment Picker */}
+          <EnvironmentPicker />
 
           {/* Right: Run Button */}
           <div className="flex items-center gap-4">
             <div className="flex items-center gap-2">
+              {queuePosition && (
+                <span className="text-sm text-gray-400">Queued #{queuePosition}</span>
+              )}
+              <select
+                value={selectedShards}
+                onChange={e => setShards(Number(e.target.value))}
+                disabled={isRunning}
+                className="bg-gray-700 border border-gray-600 rounded-lg px-2 py-2 text-sm text-gray-300 disabled:opacity-50"
+                title="Split the run across parallel Playwright processes"
+              >
+                {SHARD_OPTIONS.map(shards => (
+                  <option key={shards} value={shards}>
+                    {shards === 1 ? 'No sharding' : `${shards} shards`}
+                  </option>
+                ))}
+              </select>
               {isRunning ? (
                 <button
                   onClick={handleStop}
@@ -108,10 +126,11 @@ export default function E2EDashboardPage() {
               ) : (
                 <button
                   onClick={handleRun}
-                  disabled={isStartPending}
+                  disabled={isStartPending || !canRun}
+                  title={canRun ? undefined : 'Viewers cannot start runs'}
                   className={cn(
                     'flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors',
-                    isStartPending
+                    isStartPending || !canRun
                       ? 'bg-gray-600 text-gray-300 cursor-not-allowed'
                       : 'bg-brand hover:bg-brand/90 text-white'
                   )}
@@ -124,12 +143,14 @@ export default function E2EDashboardPage() {
                   ) : (
                     <>
                       <Play className="w-4 h-4" />
-                      Run Tests
+                      {selectedTestIds.length > 0 ? `Run ${selectedTestIds.length} Selected` : 'Run Tests'}
                     </>
                   )}
                 </button>
               )}
 
+              <RunHistoryMenu />
+
               {/* Reset Button */}
               <button
                 onClick={handleReset}
@@ -143,6 +164,8 @@ export default function E2EDashboardPage() {
                   <RotateCcw className="w-4 h-4" />
                 )}
               </button>
+
+              <UserMenu />
             </div>
           </div>
         </div>
@@ -152,6 +175,7 @@ export default function E2EDashboardPage() {
       <div className="flex-1 flex min-h-0 overflow-hidden">
         {/* Test Scenarios Panel */}
         <div className="w-[350px] flex-shrink-0 bg-gray-800 border-r border-gray-700 flex flex-col min-h-0 overflow-hidden">
+          <RunQueue />
           <TestScenarioList className="flex-1 min-h-0 overflow-hidden" />
         </div>
 
@@ -0,0 +1,154 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import Link from 'next/link'
+import { useParams, useRouter } from 'next/navigation'
+import { ArrowLeft, FileBarChart, GitCompare, Loader2, ScrollText } from 'lucide-react'
+import {
+  createE2EDashboardStore,
+  E2EDashboardStoreContext,
+  useActiveRunId,
+  useShowReport,
+  useIsCompleted,
+  useE2EDashboardStore,
+} from '@/store/e2e-store'
+import { useRunEvents } from '@/hooks/use-run-events'
+import { useTestStatus } from '@/hooks/queries'
+import { TerminalViewer, TestScenarioList, TestReport } from '@/components'
+
+export default function RunDetailPage() {
+  // The replayed run lives in a store of its own, so the dashboard keeps its
+  // active run and test selection
+  const [store] = useState(createE2EDashboardStore)
+
+  return (
+    <E2EDashboardStoreContext.Provider value={store}>
+      <RunDetail />
+    </E2EDashboardStoreContext.Provider>
+  )
+}
+
+function RunDetail() {
+  const { runId } = useParams<{ runId: string }>()
+  const router = useRouter()
+  const activeRunId = useActiveRunId()
+  const showReport = useShowReport()
+  const isCompleted = useIsCompleted()
+  const { startRun, setCategory, setTestSelection, toggleReport } = useE2EDashboardStore()
+
+  const { data: run, isError } = useTestStatus(runId)
+
+  // Replay the stored run into the dashboard store; the stream sends every log and scenario again
+  useEffect(() => {
+    startRun(runId)
+  }, [runId, startRun])
+
+  useEffect(() => {
+    if (!run) return
+    setCategory(run.category)
+    setTestSelection(run.selection?.testIds ?? [])
+  }, [run, setCategory, setTestSelection])
+
+  // Re-running failures from here starts another run; follow it to its own
+  // page. Only a change away from this page's run counts, not the old run
+  // still in the store right after navigating here
+  const previousRunIdRef = useRef(activeRunId)
+  useEffect(() => {
+    const previousRunId = previousRunIdRef.current
+    previousRunIdRef.current = activeRunId
+    if (previousRunId === runId && activeRunId && activeRunId !== runId) {
+      router.push(`/runs/${activeRunId}`)
+    }
+  }, [activeRunId, runId, router])
+
+  const isLoaded = activeRunId === runId
+  useRunEvents({ runId, enabled: isLoaded && !isError })
+
+  return (
+    <div className="h-screen bg-gray-900 flex flex-col overflow-hidden">
+      <div className="flex-shrink-0 bg-gray-800 border-b border-gray-700 px-4 py-3">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4 min-w-0">
+            <Link
+              href="/runs"
+              className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-gray-700 transition-colors"
+              title="Back to run history"
+            >
+              <ArrowLeft className="w-4 h-4" />
+            </Link>
+            <h1 className="text-lg font-semibold text-white">
+              Run <span className="font-mono">{runId.slice(0, 8)}</span>
+            </h1>
+            {run && (
+              <div className="flex items-center gap-3 text-sm text-gray-400 truncate">
+                <span>{run.status}</span>
+                <span>{run.category} · {run.config}</span>
+                <span>{new Date(run.startedAt).toLocaleString()}</span>
+                {run.startedBy && <span>by {run.startedBy}</span>}
+                {run.cancelledBy && <span>cancelled by {run.cancelledBy}</span>}
+                {run.parentRunId && (
+                  <Link href={`/runs/${run.parentRunId}`} className="text-brand hover:text-white">
+                    Re-run of {run.parentRunId.slice(0, 8)}
+                  </Link>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Link
+              href={run?.parentRunId ? `/compare?base=${run.parentRunId}&head=${runId}` : `/compare?head=${runId}`}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg text-gray-300 hover:text-white hover:bg-gray-700 transition-colors"
+            >
+              <GitCompare className="w-4 h-4" />
+              Compare
+            </Link>
+            {run?.reportUrl && (
+              <a
+                href={run.reportUrl}
+                target="_blank"
+                rel="noreferrer"
+                className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg text-gray-300 hover:text-white hover:bg-gray-700 transition-colors"
+              >
+                <FileBarChart className="w-4 h-4" />
+                HTML Report
+              </a>
+            )}
+            {isCompleted && (
+              <button
+                onClick={toggleReport}
+                className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg text-gray-300 hover:text-white hover:bg-gray-700 transition-colors"
+              >
+                <ScrollText className="w-4 h-4" />
+                {showReport ? 'Show Logs' : 'Show Results'}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {isError ? (
+        <div className="flex-1 flex items-center justify-center text-sm text-gray-500">
+          Run not found. It may have been removed from history.
+        </div>
+      ) : !isLoaded ? (
+        <div className="flex-1 flex items-center justify-center">
+          <Loader2 className="w-6 h-6 text-gray-500 animate-spin" />
+        </div>
+      ) : (
+        <div className="flex-1 flex min-h-0 overflow-hidden">
+          <div className="w-[350px] flex-shrink-0 bg-gray-800 border-r border-gray-700 flex flex-col min-h-0 overflow-hidden">
+            <TestScenarioList className="flex-1 min-h-0 overflow-hidden" />
+          </div>
+          <div className="flex-1 bg-gray-900 flex flex-col min-h-0 overflow-hidden">
+            {showReport && isCompleted ? (
+              <TestReport className="flex-1 min-h-0 overflow-hidden" />
+            ) : (
+              <TerminalViewer className="flex-1 min-h-0 overflow-hidden" />
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,47 @@
+'use client'
+
+import Link from 'next/link'
+import { ArrowLeft, CalendarClock, GitCompare } from 'lucide-react'
+import { RunHistoryTable, FlakyTestsPanel } from '@/components'
+
+export default function RunHistoryPage() {
+  return (
+    <div className="h-screen bg-gray-900 flex flex-col overflow-hidden">
+      <div className="flex-shrink-0 bg-gray-800 border-b border-gray-700 px-4 py-3">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/"
+              className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-gray-700 transition-colors"
+              title="Back to dashboard"
+            >
+              <ArrowLeft className="w-4 h-4" />
+            </Link>
+            <h1 className="text-lg font-semibold text-white">Run History</h1>
+          </div>
+          <div className="flex items-center gap-1">
+            <Link
+              href="/schedules"
+              className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg text-gray-300 hover:text-white hover:bg-gray-700 transition-colors"
+            >
+              <CalendarClock className="w-4 h-4" />
+              Schedules
+            </Link>
+            <Link
+              href="/compare"
+              className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg text-gray-300 hover:text-white hover:bg-gray-700 transition-colors"
+            >
+              <GitCompare className="w-4 h-4" />
+              Compare Runs
+            </Link>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 flex min-h-0 overflow-hidden">
+        <RunHistoryTable className="flex-1 min-h-0 overflow-hidden" />
+        <FlakyTestsPanel className="w-[340px] flex-shrink-0 border-l border-gray-700 min-h-0 overflow-hidden" />
+      </div>
+    </div>
+  )
+}
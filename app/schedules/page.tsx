@@ -0,0 +1,27 @@
+'use client'
+
+import Link from 'next/link'
+import { ArrowLeft } from 'lucide-react'
+import { ScheduleForm, ScheduleList } from '@/components'
+
+export default function SchedulesPage() {
+  return (
+    <div className="h-screen bg-gray-900 flex flex-col overflow-hidden">
+      <div className="flex-shrink-0 bg-gray-800 border-b border-gray-700 px-4 py-3">
+        <div className="flex items-center gap-4">
+          <Link
+            href="/runs"
+            className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-gray-700 transition-colors"
+            title="Back to run history"
+          >
+            <ArrowLeft className="w-4 h-4" />
+          </Link>
+          <h1 className="text-lg font-semibold text-white">Schedules</h1>
+        </div>
+      </div>
+
+      <ScheduleForm className="flex-shrink-0" />
+      <ScheduleList className="flex-1 min-h-0" />
+    </div>
+  )
+}
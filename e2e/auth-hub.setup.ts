@@ -1,7 +1,9 @@
 import { test as setup, expect } from '@playwright/test'
-import path from 'path'
+import { AUTH_FILE, ensureAuthDir } from './constants'
 
-const authFile = path.join(__dirname, '.auth/user.json')
+const authFile = AUTH_FILE
+
+ensureAuthDir()
 
 /**
  * Authentication setup via Hub login page with subdomain selection.
@@ -4,7 +4,9 @@ import fs from 'fs'
 // Use /tmp for writable paths in Vercel environment (read-only filesystem)
 export const isVercel = !!process.env.VERCEL || !!process.env.VERCEL_ENV
 
-export const AUTH_DIR = isVercel ? '/tmp/e2e/.auth' : path.join(__dirname, '.auth')
+// E2E_AUTH_DIR lets concurrent runs (e.g. shards) keep separate login state
+export const AUTH_DIR = process.env.E2E_AUTH_DIR
+  || (isVercel ? '/tmp/e2e/.auth' : path.join(__dirname, '.auth'))
 export const AUTH_FILE = path.join(AUTH_DIR, 'user.json')
 
 // Ensure auth directory exists
@@ -0,0 +1,154 @@
+import fs from 'fs'
+import path from 'path'
+import type {
+  FullConfig,
+  FullResult,
+  Reporter,
+  Suite,
+  TestCase,
+  TestResult,
+} from '@playwright/test/reporter'
+import { EVENT_LINE_PREFIX, type ReporterEvent, type ReporterTestInfo } from '../../app/api/e2e/lib/reporter-events'
+
+/**
+ * Reporter that writes structured NDJSON events for the E2E dashboard.
+ *
+ * Events go to the file descriptor in E2E_EVENTS_FD (the dashboard passes an
+ * extra pipe as fd 3) or are appended to the file in E2E_EVENTS_FILE. With
+ * E2E_EVENTS_STDOUT they are written to stdout, each line starting with
+ * EVENT_LINE_PREFIX, for launchers such as npx that don't pass extra pipes on.
+ * Without any of these variables the reporter does nothing.
+ */
+class EventReporter implements Reporter {
+  private fd: number | null = null
+  private ownsFd = false
+  private toStdout = false
+
+  constructor() {
+    if (process.env.E2E_EVENTS_FD) {
+      this.fd = Number(process.env.E2E_EVENTS_FD)
+    } else if (process.env.E2E_EVENTS_FILE) {
+      this.fd = fs.openSync(process.env.E2E_EVENTS_FILE, 'a')
+      this.ownsFd = true
+    } else if (process.env.E2E_EVENTS_STDOUT) {
+      this.toStdout = true
+    }
+  }
+
+  printsToStdio(): boolean {
+    return false
+  }
+
+  onBegin(config: FullConfig, suite: Suite): void {
+    const tests = suite.allTests()
+    this.write({
+      type: 'begin',
+      total: tests.length,
+      tests: tests.map(test => this.describeTest(test)),
+      workers: config.workers,
+    })
+  }
+
+  onTestBegin(test: TestCase, result: TestResult): void {
+    this.write({
+      type: 'testBegin',
+      test: this.describeTest(test),
+      retry: result.retry,
+      workerIndex: result.workerIndex,
+    })
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    const outcome = test.outcome()
+
+    this.write({
+      type: 'testEnd',
+      test: this.describeTest(test),
+      retry: result.retry,
+      workerIndex: result.workerIndex,
+      status: result.status,
+      outcome,
+      final: outcome !== 'unexpected' || result.retry >= test.retries || result.status === 'interrupted',
+      duration: result.duration,
+      errors: result.errors.map(error => ({ message: error.message, stack: error.stack })),
+      attachments: result.attachments.map(attachment => ({
+        name: attachment.name,
+        contentType: attachment.contentType,
+        path: attachment.path,
+      })),
+    })
+  }
+
+  // With --quiet the list reporter leaves test output to these, so each line
+  // reaches the dashboard tagged with the test that printed it
+  onStdOut(chunk: string | Buffer, test: void | TestCase, result: void | TestResult): void {
+    this.writeOutput('stdout', chunk, test, result)
+  }
+
+  onStdErr(chunk: string | Buffer, test: void | TestCase, result: void | TestResult): void {
+    this.writeOutput('stderr', chunk, test, result)
+  }
+
+  onEnd(result: FullResult): void {
+    this.write({
+      type: 'end',
+      status: result.status,
+      duration: result.duration,
+    })
+
+    if (this.fd !== null && this.ownsFd) {
+      fs.closeSync(this.fd)
+    }
+    this.fd = null
+  }
+
+  private describeTest(test: TestCase): ReporterTestInfo {
+    const testDir = test.parent.project()?.testDir ?? process.cwd()
+    const file = path.relative(testDir, test.location.file).split(path.sep).join('/')
+
+    // titlePath: ['', project, file, ...describe blocks, title]
+    const describes = test.titlePath().slice(3, -1)
+    const suite = describes.join(' › ')
+
+    return {
+      // The same title can appear in two describe blocks of a file, so the id
+      // carries the whole path, as generate-test-list builds it
+      scenarioId: `${file}:${[...describes, test.title].join(' > ')}`,
+      title: test.title,
+      file,
+      line: test.location.line,
+      suite,
+      project: test.parent.project()?.name ?? '',
+    }
+  }
+
+  private writeOutput(
+    type: 'stdout' | 'stderr',
+    chunk: string | Buffer,
+    test: void | TestCase,
+    result: void | TestResult
+  ): void {
+    this.write({
+      type,
+      text: chunk.toString(),
+      test: test ? this.describeTest(test) : undefined,
+      workerIndex: result ? result.workerIndex : undefined,
+    })
+  }
+
+  private write(event: ReporterEvent): void {
+    if (this.toStdout) {
+      process.stdout.write(`${EVENT_LINE_PREFIX}${JSON.stringify(event)}\n`)
+      return
+    }
+    if (this.fd === null) return
+    try {
+      fs.writeSync(this.fd, JSON.stringify(event) + '\n')
+    } catch {
+      // The dashboard went away; keep the test run going
+      this.fd = null
+    }
+  }
+}
+
+export default EventReporter
@@ -0,0 +1,6 @@
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { initE2EServer } = await import('./app/api/e2e/lib/bootstrap')
+    initE2EServer()
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  authenticateRequest,
+  getRequiredRole,
+  hasRole,
+  isAuthEnabled,
+  USER_HEADER,
+  ROLE_HEADER,
+} from './app/api/e2e/lib/auth'
+
+const LOGIN_PATH = '/login'
+
+/**
+ * Authenticates every page and /api/e2e request and enforces roles.
+ * Route handlers read the resulting user through getRequestUser().
+ */
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl
+
+  // Never trust identity headers sent by the client
+  const headers = new Headers(request.headers)
+  headers.delete(USER_HEADER)
+  headers.delete(ROLE_HEADER)
+  const next = () => NextResponse.next({ request: { headers } })
+
+  if (!isAuthEnabled()) return next()
+
+  const isApi = pathname.startsWith('/api/')
+  const cronSecret = process.env.CRON_SECRET
+  if (
+    pathname === '/api/e2e/schedules/tick' &&
+    cronSecret &&
+    request.headers.get('authorization') === `Bearer ${cronSecret}`
+  ) {
+    return next()
+  }
+
+  const user = await authenticateRequest(request)
+  if (user) {
+    headers.set(USER_HEADER, user.name)
+    headers.set(ROLE_HEADER, user.role)
+  }
+
+  if (!isApi) {
+    if (user || pathname === LOGIN_PATH) return next()
+    const loginUrl = new URL(LOGIN_PATH, request.url)
+    loginUrl.searchParams.set('next', `${pathname}${search}`)
+    return NextResponse.redirect(loginUrl)
+  }
+
+  const requiredRole = getRequiredRole(request.method, pathname)
+  if (requiredRole === null) return next()
+
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  if (!hasRole(user, requiredRole)) {
+    return NextResponse.json(
+      { error: `This action requires the ${requiredRole} role` },
+      { status: 403 }
+    )
+  }
+
+  return next()
+}
+
+export const config = {
+  matcher: ['/((?!_next/static|_next/image|favicon.ico).*)'],
+}
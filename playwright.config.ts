@@ -1,6 +1,7 @@
 import { defineConfig, devices } from '@playwright/test'
 import path from 'path'
 import dotenv from 'dotenv'
+import { AUTH_FILE } from './e2e/constants'
 
 // Load .env.test file for test environment variables
 dotenv.config({ path: path.resolve(__dirname, '.env.test') })
@@ -40,7 +41,7 @@ export default defineConfig({
       name: 'chromium',
       use: {
         ...devices['Desktop Chrome'],
-        storageState: './e2e/.auth/user.json',
+        storageState: AUTH_FILE,
       },
       dependencies: ['setup'],
     },
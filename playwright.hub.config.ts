@@ -1,6 +1,7 @@
 import { defineConfig, devices } from '@playwright/test'
 import path from 'path'
 import dotenv from 'dotenv'
+import { AUTH_FILE } from './e2e/constants'
 
 dotenv.config({ path: path.resolve(__dirname, '.env.staging') })
 
@@ -42,7 +43,7 @@ export default defineConfig({
       name: 'chromium',
       use: {
         ...devices['Desktop Chrome'],
-        storageState: './e2e/.auth/user.json',
+        storageState: AUTH_FILE,
       },
       dependencies: ['hub-setup'],
     },
@@ -0,0 +1,307 @@
+#!/usr/bin/env -S npx tsx
+/**
+ * Command line client for the E2E dashboard API, for triggering runs from CI.
+ *
+ * Usage:
+ *   npx tsx scripts/e2e-cli.ts run --category auth --config staging --wait --format junit --output results.xml
+ *   npx tsx scripts/e2e-cli.ts status <runId> [--format text|json|junit|markdown|csv]
+ *   npx tsx scripts/e2e-cli.ts cancel <runId>
+ *   npx tsx scripts/e2e-cli.ts history [--limit 20] [--status failed] [--category auth] [--config staging]
+ *   npx tsx scripts/e2e-cli.ts tail <runId>
+ *
+ * The dashboard URL comes from --url or E2E_RUNNER_URL, and the API token
+ * from --token or E2E_API_TOKEN. Exit codes: 0 when the run completed,
+ * 1 when it failed or was cancelled, 2 on usage or API errors.
+ */
+
+import * as fs from 'fs'
+import { parseArgs } from 'util'
+import { formatRun, toRunReport, type FormattableRun } from '../app/api/e2e/lib/result-formatters'
+import type { LogEntry, TestHistoryResponse, TestRunResponse, TestStatus } from '../app/api/e2e/lib/types'
+
+const DEFAULT_URL = 'http://localhost:3002'
+const FORMATS = ['text', 'json', 'junit', 'markdown', 'csv'] as const
+const FINISHED_STATUSES: TestStatus[] = ['completed', 'failed', 'cancelled']
+const RECONNECT_DELAY_MS = 2000
+const MAX_RECONNECT_ATTEMPTS = 10
+
+type OutputFormat = typeof FORMATS[number]
+
+class CliError extends Error {}
+
+function parseCliArgs() {
+  try {
+    return parseArgs({
+      allowPositionals: true,
+      options: {
+        url: { type: 'string' },
+        token: { type: 'string' },
+        category: { type: 'string', default: 'all' },
+        config: { type: 'string' },
+        grep: { type: 'string' },
+        'grep-invert': { type: 'string' },
+        file: { type: 'string', multiple: true },
+        shards: { type: 'string' },
+        wait: { type: 'boolean', default: false },
+        format: { type: 'string', default: 'text' },
+        output: { type: 'string' },
+        limit: { type: 'string', default: '20' },
+        status: { type: 'string' },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    })
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`)
+    process.exit(2)
+  }
+}
+
+const { values: options, positionals } = parseCliArgs()
+
+const baseUrl = (options.url || process.env.E2E_RUNNER_URL || DEFAULT_URL).replace(/\/$/, '')
+const token = options.token || process.env.E2E_API_TOKEN
+
+function getFormat(): OutputFormat {
+  const format = options.format as OutputFormat
+  if (!FORMATS.includes(format)) {
+    throw new CliError(`Invalid --format. Must be one of: ${FORMATS.join(', ')}`)
+  }
+  return format
+}
+
+function getHeaders(): Record<string, string> {
+  return token ? { Authorization: `Bearer ${token}` } : {}
+}
+
+async function request<T>(path: string, init: RequestInit = {}): Promise<T> {
+  let response: Response
+  try {
+    response = await fetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...getHeaders(), ...init.headers },
+    })
+  } catch (error) {
+    throw new CliError(`Could not reach ${baseUrl}: ${error instanceof Error ? error.message : error}`)
+  }
+
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new CliError(body.error || `${init.method || 'GET'} ${path} failed with ${response.status}`)
+  }
+  return body as T
+}
+
+function requireRunId(): string {
+  const runId = positionals[1]
+  if (!runId) {
+    throw new CliError(`Usage: e2e-cli ${positionals[0]} <runId>`)
+  }
+  return encodeURIComponent(runId)
+}
+
+function formatDuration(ms: number): string {
+  return ms >= 60000 ? `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s` : `${(ms / 1000).toFixed(1)}s`
+}
+
+function formatText(run: FormattableRun): string {
+  const report = toRunReport(run)
+  const lines = [
+    `Run ${report.runId}: ${report.status.toUpperCase()}`,
+    `  ${report.category} on ${report.config}${report.startedBy ? `, started by ${report.startedBy}` : ''}`,
+    `  ${report.passed} passed, ${report.failed} failed, ${report.skipped} skipped in ${formatDuration(report.duration)}`,
+  ]
+  for (const scenario of report.scenarios.filter(s => s.status === 'failed')) {
+    lines.push('', `  x ${scenario.name} (${scenario.file})`)
+    if (scenario.error) {
+      lines.push(...scenario.error.split('\n').slice(0, 5).map(line => `      ${line}`))
+    }
+  }
+  return `${lines.join('\n')}\n`
+}
+
+function writeRun(run: FormattableRun, format: OutputFormat): void {
+  const output = format === 'text' ? formatText(run) : formatRun(run, format)
+  if (options.output) {
+    fs.writeFileSync(options.output, output)
+    console.error(`Wrote ${format} results to ${options.output}`)
+  } else {
+    process.stdout.write(output)
+  }
+}
+
+function getExitCode(status: TestStatus): number {
+  return status === 'completed' ? 0 : 1
+}
+
+/**
+ * Follow /api/e2e/stream/[runId] until the run finishes, printing logs.
+ * Reconnects resume from the last event id, so logs aren't printed twice.
+ */
+async function followRun(runId: string, log: (line: string) => void): Promise<TestStatus> {
+  let lastEventId = 0
+  let attempts = 0
+
+  while (true) {
+    try {
+      const response = await fetch(`${baseUrl}/api/e2e/stream/${runId}`, {
+        headers: {
+          Accept: 'text/event-stream',
+          ...(lastEventId > 0 ? { 'Last-Event-ID': String(lastEventId) } : {}),
+          ...getHeaders(),
+        },
+      })
+      if (!response.ok || !response.body) {
+        const body = await response.json().catch(() => ({}))
+        throw new CliError(body.error || `Stream failed with ${response.status}`)
+      }
+      attempts = 0
+
+      const reader = response.body.getReader()
+      const decoder = new TextDecoder()
+      let buffer = ''
+
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+        buffer += decoder.decode(value, { stream: true })
+
+        let boundary: number
+        while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+          const message = buffer.slice(0, boundary)
+          buffer = buffer.slice(boundary + 2)
+
+          const event = message.match(/^event: (.*)$/m)?.[1]
+          const data = message.match(/^data: (.*)$/m)?.[1]
+          const seq = parseInt(message.match(/^id: (\d+)$/m)?.[1] ?? '0', 10)
+          // Heartbeat comments have neither
+          if (!event || !data) continue
+
+          if (event === 'log' && seq > 0 && seq <= lastEventId) continue
+          lastEventId = Math.max(lastEventId, seq)
+
+          if (event === 'log') {
+            const entry = JSON.parse(data) as LogEntry
+            log(entry.content.replace(/\n$/, ''))
+          } else if (event === 'queue') {
+            log(`Queued at position ${JSON.parse(data).position}`)
+          } else if (event === 'status') {
+            const { status } = JSON.parse(data) as { status: TestStatus }
+            if (FINISHED_STATUSES.includes(status)) {
+              await reader.cancel().catch(() => {})
+              return status
+            }
+          }
+        }
+      }
+    } catch (error) {
+      // A missing run or rejected token won't fix itself by reconnecting
+      if (error instanceof CliError) throw error
+    }
+
+    if (++attempts > MAX_RECONNECT_ATTEMPTS) {
+      throw new CliError(`Lost the stream for run ${runId} after ${MAX_RECONNECT_ATTEMPTS} reconnect attempts`)
+    }
+    await new Promise(resolve => setTimeout(resolve, RECONNECT_DELAY_MS))
+  }
+}
+
+async function runCommand(): Promise<number> {
+  const format = getFormat()
+  if (!options.config) {
+    throw new CliError('Missing --config (the environment to run against, e.g. staging)')
+  }
+
+  const run = await request<TestRunResponse>('/api/e2e/run', {
+    method: 'POST',
+    body: JSON.stringify({
+      category: options.category,
+      config: options.config,
+      files: options.file,
+      grep: options.grep,
+      grepInvert: options['grep-invert'],
+      shards: options.shards ? parseInt(options.shards, 10) : undefined,
+    }),
+  })
+
+  console.error(`Started run ${run.runId}${run.queuePosition ? ` (queue position ${run.queuePosition})` : ''}`)
+  if (!options.wait) {
+    if (format === 'json') console.log(JSON.stringify(run, null, 2))
+    else console.log(run.runId)
+    return 0
+  }
+
+  // Keep stdout clean for the JSON or JUnit output
+  const log = format === 'text' && !options.output ? console.log : console.error
+  const status = await followRun(run.runId, log)
+  writeRun(await request<FormattableRun>(`/api/e2e/status/${run.runId}`), format)
+  return getExitCode(status)
+}
+
+async function statusCommand(): Promise<number> {
+  const format = getFormat()
+  const run = await request<FormattableRun>(`/api/e2e/status/${requireRunId()}`)
+  writeRun(run, format)
+  return FINISHED_STATUSES.includes(run.status) ? getExitCode(run.status) : 0
+}
+
+async function cancelCommand(): Promise<number> {
+  const runId = requireRunId()
+  await request(`/api/e2e/cancel/${runId}`, { method: 'POST' })
+  console.log(`Cancelled run ${decodeURIComponent(runId)}`)
+  return 0
+}
+
+async function historyCommand(): Promise<number> {
+  const format = getFormat()
+  const params = new URLSearchParams({ limit: options.limit })
+  if (options.status) params.set('status', options.status)
+  if (options.category && options.category !== 'all') params.set('category', options.category)
+  if (options.config) params.set('config', options.config)
+
+  const history = await request<TestHistoryResponse>(`/api/e2e/history?${params}`)
+  if (format === 'json') {
+    console.log(JSON.stringify(history, null, 2))
+    return 0
+  }
+  if (format !== 'text') {
+    throw new CliError('history supports --format text or json')
+  }
+
+  for (const run of history.runs) {
+    const results = run.results ? `${run.results.passed} passed, ${run.results.failed} failed` : ''
+    console.log([run.runId, run.status.padEnd(9), run.category.padEnd(7), run.config.padEnd(10), run.startedAt, results].join('  '))
+  }
+  console.error(`${history.runs.length} of ${history.total} runs`)
+  return 0
+}
+
+async function tailCommand(): Promise<number> {
+  const runId = requireRunId()
+  const status = await followRun(runId, console.log)
+  console.error(`Run ${decodeURIComponent(runId)} ${status}`)
+  return getExitCode(status)
+}
+
+const COMMANDS = new Map<string, () => Promise<number>>([
+  ['run', runCommand],
+  ['status', statusCommand],
+  ['cancel', cancelCommand],
+  ['history', historyCommand],
+  ['tail', tailCommand],
+])
+
+async function main(): Promise<number> {
+  const command = COMMANDS.get(positionals[0])
+  if (options.help || !command) {
+    console.error('Usage: e2e-cli <run|status|cancel|history|tail> [options]. See scripts/e2e-cli.ts for details.')
+    return options.help ? 0 : 2
+  }
+  return command()
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`)
+    process.exit(2)
+  })
@@ -25,29 +25,55 @@ const OUTPUT_FILE = path.join(process.cwd(), 'public', 'e2e', 'test-list.json')
 
 const CATEGORIES = ['auth', 'home', 'project'] as const
 
+// Titles are string literals, e.g. 'should display Today\'s card'
+function unescapeTitle(title: string): string {
+  return title.replace(/\\(.)/g, '$1')
+}
+
 function extractTestsFromFile(filePath: string, category: string): TestInfo[] {
   const content = fs.readFileSync(filePath, 'utf-8')
   const tests: TestInfo[] = []
   const fileName = path.basename(filePath)
   const relativePath = `tests/${category}/${fileName}`
 
-  // Match test.describe blocks for suite names
-  const describeMatches = content.matchAll(/test\.describe\s*\(\s*['"`]([^'"`]+)['"`]/g)
-  const suites = Array.from(describeMatches).map(m => m[1])
-  const currentSuite = suites[0] || ''
-
-  // Match test() or test.skip() calls
-  const testMatches = content.matchAll(/test(?:\.skip)?\s*\(\s*['"`]([^'"`]+)['"`]/g)
-
-  for (const match of testMatches) {
-    const testName = match[1]
-    if (testName && !testName.includes('describe')) {
-      const id = `${relativePath}:${testName}`
+  // Walk describe/test calls and braces in order, so each test knows the
+  // describe blocks it's nested in
+  const tokens = content.matchAll(
+    /test\.describe(?:\.\w+)?\s*\(\s*(['"`])((?:\\.|(?!\1).)+?)\1|test(?:\.skip)?\s*\(\s*(['"`])((?:\\.|(?!\3).)+?)\3|[{}]/g
+  )
+  const describes: { name: string; depth: number }[] = []
+  let pendingDescribe: string | null = null
+  let depth = 0
+
+  for (const match of tokens) {
+    const [token, , rawDescribeName, , rawTestName] = match
+    const describeName = rawDescribeName && unescapeTitle(rawDescribeName)
+    const testName = rawTestName && unescapeTitle(rawTestName)
+
+    if (describeName) {
+      pendingDescribe = describeName
+    } else if (token === '{') {
+      depth++
+      // The first brace after test.describe( opens its callback
+      if (pendingDescribe !== null) {
+        describes.push({ name: pendingDescribe, depth })
+        pendingDescribe = null
+      }
+    } else if (token === '}') {
+      if (describes.length > 0 && describes[describes.length - 1].depth === depth) {
+        describes.pop()
+      }
+      depth--
+    } else if (testName && !testName.includes('describe')) {
+      const describeNames = describes.map(d => d.name)
+      // Same form as the reporter's scenario ids, so two tests with one title
+      // in different describe blocks stay apart
+      const id = `${relativePath}:${[...describeNames, testName].join(' > ')}`
       tests.push({
         id,
         name: testName,
         file: relativePath,
-        suite: currentSuite,
+        suite: describeNames.join(' › '),
       })
     }
   }
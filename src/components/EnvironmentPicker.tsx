@@ -0,0 +1,106 @@
+'use client'
+
+import { memo } from 'react'
+import { Server } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { useEnvironments, useEnvironmentHealth } from '@/hooks/queries'
+import { useSelectedConfig, useIsRunning, useE2EDashboardStore } from '@/store/e2e-store'
+import type { EnvironmentHealth, EndpointHealth, HealthStatus } from '@/types'
+
+interface EnvironmentPickerProps {
+  className?: string
+}
+
+const HEALTH_BADGES: Record<HealthStatus, { label: string; className: string }> = {
+  healthy: { label: 'OK', className: 'bg-green-500 text-white' },
+  degraded: { label: 'Degraded', className: 'bg-yellow-500 text-gray-900' },
+  down: { label: 'Down', className: 'bg-red-500 text-white' },
+}
+
+function describeEndpoint(endpoint: EndpointHealth): string {
+  const parts = [`${endpoint.name}: ${endpoint.url}`]
+  if (endpoint.error) {
+    parts.push(endpoint.error)
+  } else {
+    parts.push(`HTTP ${endpoint.statusCode}`)
+    if (endpoint.latencyMs !== undefined) parts.push(`${endpoint.latencyMs}ms`)
+  }
+  if (endpoint.tlsDaysRemaining !== undefined) {
+    parts.push(`TLS expires in ${endpoint.tlsDaysRemaining}d`)
+  }
+  return parts.join(' · ')
+}
+
+function describeHealth(health: EnvironmentHealth): string {
+  return [
+    ...health.endpoints.map(describeEndpoint),
+    `Checked ${new Date(health.checkedAt).toLocaleTimeString()}`,
+  ].join('\n')
+}
+
+const HealthBadge = memo(function HealthBadge({ environment }: { environment: string }) {
+  const { data, isLoading, isError } = useEnvironmentHealth(environment)
+
+  if (isLoading) {
+    return (
+      <span className="px-1.5 py-0.5 text-[10px] font-medium bg-gray-600 text-gray-300 rounded">
+        ...
+      </span>
+    )
+  }
+
+  if (isError || !data) {
+    return (
+      <span
+        className="px-1.5 py-0.5 text-[10px] font-medium bg-gray-600 text-gray-300 rounded"
+        title="Health check failed"
+      >
+        ?
+      </span>
+    )
+  }
+
+  const badge = HEALTH_BADGES[data.status]
+  return (
+    <span
+      className={cn('px-1.5 py-0.5 text-[10px] font-medium rounded cursor-help', badge.className)}
+      title={describeHealth(data)}
+    >
+      {badge.label}
+    </span>
+  )
+})
+
+export function EnvironmentPicker({ className }: EnvironmentPickerProps) {
+  const selectedConfig = useSelectedConfig()
+  const isRunning = useIsRunning()
+  const { setConfig } = useE2EDashboardStore()
+  const { data } = useEnvironments()
+
+  const environments = data?.environments ?? []
+  const selected = environments.find(target => target.name === selectedConfig)
+
+  return (
+    <div
+      className={cn('flex items-center gap-2 px-3 py-1.5 bg-gray-700 rounded-lg', className)}
+      title={selected?.baseUrl}
+    >
+      <Server className="w-4 h-4 text-brand" />
+      <select
+        value={selectedConfig}
+        onChange={e => setConfig(e.target.value)}
+        disabled={isRunning}
+        className="bg-transparent text-sm text-gray-300 focus:outline-none disabled:opacity-50"
+      >
+        {/* Keep the current value selectable before the list has loaded */}
+        {!selected && <option value={selectedConfig}>{selectedConfig}</option>}
+        {environments.map(target => (
+          <option key={target.name} value={target.name} className="bg-gray-800">
+            {target.label || target.name}
+          </option>
+        ))}
+      </select>
+      <HealthBadge environment={selectedConfig} />
+    </div>
+  )
+}
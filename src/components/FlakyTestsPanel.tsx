@@ -0,0 +1,107 @@
+'use client'
+
+import { memo, useState } from 'react'
+import { cn } from '@/lib/utils'
+import { Activity, Loader2, RotateCcw } from 'lucide-react'
+import { useFlakyTests } from '@/hooks/queries'
+import type { FlakyTestStats } from '@/types'
+
+interface FlakyTestsPanelProps {
+  className?: string
+}
+
+const RUN_WINDOWS = [20, 50, 100]
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`
+}
+
+const FlakyTestRow = memo(function FlakyTestRow({ test, rank }: { test: FlakyTestStats; rank: number }) {
+  return (
+    <div className="px-3 py-2 border-b border-gray-700/60">
+      <div className="flex items-start gap-2">
+        <span className="w-4 text-xs text-gray-500 flex-shrink-0">{rank}</span>
+        <div className="flex-1 min-w-0">
+          <div className="text-sm text-gray-200 truncate" title={test.name}>
+            {test.name}
+          </div>
+          <div className="text-[10px] text-gray-500 truncate" title={test.file}>
+            {test.file}
+          </div>
+        </div>
+        <span
+          className={cn(
+            'text-xs font-medium flex-shrink-0',
+            test.score >= 0.4 ? 'text-red-400' : test.score >= 0.15 ? 'text-yellow-400' : 'text-gray-400'
+          )}
+          title="Flakiness score"
+        >
+          {formatPercent(test.score)}
+        </span>
+      </div>
+      <div className="flex items-center gap-3 mt-1 ml-6 text-[10px] text-gray-400">
+        <span title="Pass rate">
+          <span className="text-emerald-400">{formatPercent(test.passRate)}</span> pass
+        </span>
+        <span title="Passed only after a retry" className="flex items-center gap-0.5">
+          <RotateCcw className="w-2.5 h-2.5" />
+          {test.passedOnRetry}
+        </span>
+        <span title="Passed/failed flips between consecutive runs">
+          {test.flips} flips
+        </span>
+        <span className="text-gray-500">{test.runs} runs</span>
+      </div>
+    </div>
+  )
+})
+
+export function FlakyTestsPanel({ className }: FlakyTestsPanelProps) {
+  const [runWindow, setRunWindow] = useState(50)
+  const { data, isLoading } = useFlakyTests(runWindow)
+
+  return (
+    <div className={cn('flex flex-col bg-gray-800', className)}>
+      <div className="flex items-center justify-between px-3 py-3 border-b border-gray-700">
+        <span className="flex items-center gap-2 text-sm font-medium text-gray-300">
+          <Activity className="w-4 h-4 text-yellow-400" />
+          Flakiest Tests
+        </span>
+        <select
+          value={runWindow}
+          onChange={e => setRunWindow(Number(e.target.value))}
+          className="bg-gray-700 border border-gray-600 rounded px-1.5 py-0.5 text-xs text-gray-200"
+          title="Runs to analyze"
+        >
+          {RUN_WINDOWS.map(runs => (
+            <option key={runs} value={runs}>
+              Last {runs} runs
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-y-auto">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 text-gray-500 animate-spin" />
+          </div>
+        ) : !data || data.tests.length === 0 ? (
+          <div className="px-3 py-6 text-center text-xs text-gray-500">
+            No flaky tests in the last {data?.analyzedRuns ?? 0} runs
+          </div>
+        ) : (
+          data.tests.map((test, index) => (
+            <FlakyTestRow key={test.scenarioId} test={test} rank={index + 1} />
+          ))
+        )}
+      </div>
+
+      {data && data.tests.length > 0 && (
+        <div className="px-3 py-1.5 border-t border-gray-700 text-[10px] text-gray-500">
+          Based on {data.analyzedRuns} runs
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,173 @@
+'use client'
+
+import { memo } from 'react'
+import Link from 'next/link'
+import { cn } from '@/lib/utils'
+import { ArrowRight, Loader2 } from 'lucide-react'
+import { useRunComparison } from '@/hooks/queries'
+import type { ScenarioChange, ScenarioComparison, TestRunSummary, TestScenarioStatus } from '@/types'
+
+interface RunComparisonProps {
+  base: string
+  head: string
+  className?: string
+}
+
+const CHANGE_LABELS: Record<ScenarioChange, string> = {
+  'newly-failing': 'Newly failing',
+  'newly-passing': 'Newly passing',
+  'newly-skipped': 'Newly skipped',
+  added: 'Added',
+  removed: 'Removed',
+  unchanged: 'Unchanged',
+}
+
+const CHANGE_STYLES: Record<ScenarioChange, string> = {
+  'newly-failing': 'text-red-400 bg-red-500/20',
+  'newly-passing': 'text-emerald-400 bg-emerald-500/20',
+  'newly-skipped': 'text-yellow-400 bg-yellow-500/20',
+  added: 'text-blue-400 bg-blue-500/20',
+  removed: 'text-gray-400 bg-gray-600/40',
+  unchanged: 'text-gray-500 bg-gray-700/50',
+}
+
+const STATUS_COLORS: Record<TestScenarioStatus, string> = {
+  passed: 'text-emerald-400',
+  failed: 'text-red-400',
+  skipped: 'text-gray-500',
+  running: 'text-blue-400',
+  pending: 'text-gray-500',
+}
+
+function formatDuration(ms: number): string {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`
+}
+
+function formatDelta(ms: number): string {
+  return `${ms >= 0 ? '+' : '-'}${formatDuration(Math.abs(ms))}`
+}
+
+const RunHeader = memo(function RunHeader({ label, run }: { label: string; run: TestRunSummary }) {
+  return (
+    <div className="flex-1 min-w-0 px-3 py-2 bg-gray-800 rounded-lg">
+      <div className="text-[10px] uppercase text-gray-500">{label}</div>
+      <Link href={`/runs/${run.runId}`} className="font-mono text-sm text-brand hover:text-white">
+        {run.runId.slice(0, 8)}
+      </Link>
+      <div className="text-xs text-gray-400 truncate">
+        {run.status} · {run.category} · {run.config} · {new Date(run.startedAt).toLocaleString()}
+      </div>
+      {run.results && (
+        <div className="text-xs mt-0.5">
+          <span className="text-emerald-400">{run.results.passed} passed</span>
+          {' · '}
+          <span className="text-red-400">{run.results.failed} failed</span>
+          {' · '}
+          <span className="text-gray-400">{run.results.skipped} skipped</span>
+        </div>
+      )}
+    </div>
+  )
+})
+
+const ComparisonRow = memo(function ComparisonRow({ scenario }: { scenario: ScenarioComparison }) {
+  return (
+    <tr className="border-b border-gray-700/60 hover:bg-gray-800/60">
+      <td className="px-3 py-1.5">
+        <span className={cn('px-1.5 py-0.5 rounded text-[10px] font-medium', CHANGE_STYLES[scenario.change])}>
+          {CHANGE_LABELS[scenario.change]}
+        </span>
+      </td>
+      <td className="px-3 py-1.5 min-w-0">
+        <div className="text-gray-200 truncate" title={scenario.name}>{scenario.name}</div>
+        <div className="text-[10px] text-gray-500 truncate">{scenario.file}</div>
+      </td>
+      <td className="px-3 py-1.5 text-xs whitespace-nowrap">
+        <span className={scenario.baseStatus ? STATUS_COLORS[scenario.baseStatus] : 'text-gray-600'}>
+          {scenario.baseStatus ?? '-'}
+        </span>
+        <ArrowRight className="inline w-3 h-3 mx-1 text-gray-600" />
+        <span className={scenario.headStatus ? STATUS_COLORS[scenario.headStatus] : 'text-gray-600'}>
+          {scenario.headStatus ?? '-'}
+        </span>
+      </td>
+      <td className="px-3 py-1.5 text-xs text-gray-400 whitespace-nowrap">
+        {scenario.baseDuration !== null ? formatDuration(scenario.baseDuration) : '-'}
+        {' → '}
+        {scenario.headDuration !== null ? formatDuration(scenario.headDuration) : '-'}
+      </td>
+      <td
+        className={cn(
+          'px-3 py-1.5 text-xs whitespace-nowrap',
+          scenario.durationDelta === null
+            ? 'text-gray-600'
+            : scenario.durationDelta > 0
+            ? 'text-orange-400'
+            : 'text-emerald-400'
+        )}
+      >
+        {scenario.durationDelta !== null ? formatDelta(scenario.durationDelta) : '-'}
+      </td>
+    </tr>
+  )
+})
+
+export function RunComparison({ base, head, className }: RunComparisonProps) {
+  const { data, isLoading, isError, error } = useRunComparison(base, head)
+
+  if (isLoading) {
+    return (
+      <div className={cn('flex items-center justify-center', className)}>
+        <Loader2 className="w-6 h-6 text-gray-500 animate-spin" />
+      </div>
+    )
+  }
+
+  if (isError || !data) {
+    return (
+      <div className={cn('flex items-center justify-center text-sm text-red-400', className)}>
+        {error instanceof Error ? error.message : 'Failed to compare runs'}
+      </div>
+    )
+  }
+
+  return (
+    <div className={cn('flex flex-col', className)}>
+      <div className="flex items-stretch gap-3 p-4 flex-shrink-0">
+        <RunHeader label="Base" run={data.base} />
+        <ArrowRight className="self-center w-5 h-5 text-gray-500 flex-shrink-0" />
+        <RunHeader label="Head" run={data.head} />
+      </div>
+
+      <div className="flex flex-wrap gap-2 px-4 pb-3 flex-shrink-0">
+        {(Object.keys(CHANGE_LABELS) as ScenarioChange[]).map(change => (
+          <span key={change} className={cn('px-2 py-1 rounded text-xs font-medium', CHANGE_STYLES[change])}>
+            {CHANGE_LABELS[change]}: {data.summary[change]}
+          </span>
+        ))}
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-y-auto">
+        <table className="w-full text-sm text-left table-fixed">
+          <thead className="sticky top-0 bg-gray-900 text-xs text-gray-500 uppercase">
+            <tr className="border-b border-gray-700">
+              <th className="px-3 py-2 font-medium w-32">Change</th>
+              <th className="px-3 py-2 font-medium">Scenario</th>
+              <th className="px-3 py-2 font-medium w-44">Status</th>
+              <th className="px-3 py-2 font-medium w-36">Duration</th>
+              <th className="px-3 py-2 font-medium w-24">Delta</th>
+            </tr>
+          </thead>
+          <tbody>
+            {data.scenarios.map(scenario => (
+              <ComparisonRow key={scenario.scenarioId} scenario={scenario} />
+            ))}
+          </tbody>
+        </table>
+        {data.scenarios.length === 0 && (
+          <div className="px-4 py-8 text-center text-sm text-gray-500">Neither run has scenario results</div>
+        )}
+      </div>
+    </div>
+  )
+}
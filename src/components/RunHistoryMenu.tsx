@@ -0,0 +1,78 @@
+'use client'
+
+import { memo, useState } from 'react'
+import Link from 'next/link'
+import { cn } from '@/lib/utils'
+import { History, FileBarChart, ChevronDown } from 'lucide-react'
+import { useTestHistory } from '@/hooks/queries'
+import type { TestRunSummary, TestStatus } from '@/types'
+
+const statusColors: Record<TestStatus, string> = {
+  queued: 'bg-gray-500',
+  running: 'bg-blue-400 animate-pulse',
+  completed: 'bg-emerald-400',
+  failed: 'bg-red-400',
+  cancelled: 'bg-gray-500',
+}
+
+const HistoryRow = memo(function HistoryRow({ run }: { run: TestRunSummary }) {
+  return (
+    <div className="flex items-center gap-2 px-3 py-1.5 text-xs hover:bg-gray-700/50">
+      <div className={cn('w-2 h-2 rounded-full flex-shrink-0', statusColors[run.status])} />
+      <Link href={`/runs/${run.runId}`} className="text-gray-300 hover:text-white flex-1 truncate">
+        {run.category} · {run.config}
+      </Link>
+      <span className="text-gray-500 flex-shrink-0">
+        {new Date(run.startedAt).toLocaleString()}
+      </span>
+      {run.reportUrl ? (
+        <a
+          href={run.reportUrl}
+          target="_blank"
+          rel="noreferrer"
+          className="flex items-center gap-1 text-brand hover:text-white flex-shrink-0"
+          title="Open HTML report"
+        >
+          <FileBarChart className="w-3 h-3" />
+          Report
+        </a>
+      ) : (
+        <span className="w-[52px] flex-shrink-0" />
+      )}
+    </div>
+  )
+})
+
+export function RunHistoryMenu() {
+  const [isOpen, setIsOpen] = useState(false)
+  const { data } = useTestHistory({ limit: 20 })
+  const history = data?.runs
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1 p-2 rounded-lg text-gray-400 hover:text-white hover:bg-gray-700 transition-colors"
+        title="Recent runs"
+      >
+        <History className="w-4 h-4" />
+        <ChevronDown className="w-3 h-3" />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-[420px] max-h-96 overflow-y-auto bg-gray-800 border border-gray-700 rounded-lg shadow-lg z-20 py-1">
+          {!history || history.length === 0 ? (
+            <div className="px-3 py-2 text-xs text-gray-500">No runs yet</div>
+          ) : (
+            history.map(run => <HistoryRow key={run.runId} run={run} />)
+          )}
+          <Link
+            href="/runs"
+            className="block px-3 py-1.5 mt-1 border-t border-gray-700 text-xs text-brand hover:text-white"
+          >
+            View all runs ({data?.total ?? 0})
+          </Link>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,237 @@
+'use client'
+
+import { memo, useState } from 'react'
+import Link from 'next/link'
+import { cn } from '@/lib/utils'
+import { ChevronLeft, ChevronRight, FileBarChart, Loader2 } from 'lucide-react'
+import { useTestHistory, useEnvironments } from '@/hooks/queries'
+import type { TestCategory, TestConfig, TestHistoryQuery, TestRunSummary, TestStatus } from '@/types'
+
+interface RunHistoryTableProps {
+  className?: string
+}
+
+const PAGE_SIZE = 25
+
+const STATUSES: TestStatus[] = ['queued', 'running', 'completed', 'failed', 'cancelled']
+const CATEGORIES: TestCategory[] = ['all', 'auth', 'home', 'project']
+
+const statusStyles: Record<TestStatus, string> = {
+  queued: 'bg-gray-600 text-gray-200',
+  running: 'bg-blue-500/20 text-blue-300',
+  completed: 'bg-emerald-500/20 text-emerald-300',
+  failed: 'bg-red-500/20 text-red-300',
+  cancelled: 'bg-gray-600 text-gray-300',
+}
+
+function formatDuration(run: TestRunSummary): string {
+  if (!run.completedAt) return '-'
+  const seconds = Math.round(
+    (new Date(run.completedAt).getTime() - new Date(run.startedAt).getTime()) / 1000
+  )
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`
+}
+
+// Date inputs are local calendar days; `to` covers the whole day
+function toRangeBound(date: string, endOfDay: boolean): string | undefined {
+  if (!date) return undefined
+  return new Date(`${date}T${endOfDay ? '23:59:59.999' : '00:00:00'}`).toISOString()
+}
+
+function FilterSelect<T extends string>({
+  label,
+  value,
+  options,
+  onChange,
+}: {
+  label: string
+  value: T | ''
+  options: T[]
+  onChange: (value: T | '') => void
+}) {
+  return (
+    <label className="flex items-center gap-2 text-xs text-gray-400">
+      {label}
+      <select
+        value={value}
+        onChange={e => onChange(e.target.value as T | '')}
+        className="bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm text-gray-200"
+      >
+        <option value="">Any</option>
+        {options.map(option => (
+          <option key={option} value={option}>
+            {option}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+}
+
+const HistoryTableRow = memo(function HistoryTableRow({ run }: { run: TestRunSummary }) {
+  return (
+    <tr className="border-b border-gray-700/60 hover:bg-gray-800/60">
+      <td className="px-3 py-2">
+        <span className={cn('px-2 py-0.5 rounded text-xs font-medium', statusStyles[run.status])}>
+          {run.status}
+        </span>
+      </td>
+      <td className="px-3 py-2">
+        <Link href={`/runs/${run.runId}`} className="font-mono text-xs text-brand hover:text-white">
+          {run.runId.slice(0, 8)}
+        </Link>
+        {run.parentRunId && (
+          <span className="ml-2 text-[10px] text-gray-500" title={`Re-run of ${run.parentRunId}`}>
+            re-run
+          </span>
+        )}
+        {run.triggeredBy === 'schedule' && (
+          <Link href="/schedules" className="ml-2 text-[10px] text-gray-500 hover:text-gray-300" title="Started by a schedule">
+            scheduled
+          </Link>
+        )}
+      </td>
+      <td className="px-3 py-2 text-gray-300">{run.category}</td>
+      <td className="px-3 py-2 text-gray-300">{run.config}</td>
+      <td className="px-3 py-2 text-gray-400">{run.startedBy ?? '-'}</td>
+      <td className="px-3 py-2 text-gray-400">{new Date(run.startedAt).toLocaleString()}</td>
+      <td className="px-3 py-2 text-gray-400">{formatDuration(run)}</td>
+      <td className="px-3 py-2">
+        {run.results ? (
+          <span className="text-xs">
+            <span className="text-emerald-400">{run.results.passed}</span>
+            {' / '}
+            <span className="text-red-400">{run.results.failed}</span>
+            {' / '}
+            <span className="text-gray-400">{run.results.skipped}</span>
+          </span>
+        ) : (
+          <span className="text-gray-600">-</span>
+        )}
+      </td>
+      <td className="px-3 py-2">
+        {run.reportUrl && (
+          <a
+            href={run.reportUrl}
+            target="_blank"
+            rel="noreferrer"
+            className="inline-flex items-center gap-1 text-xs text-brand hover:text-white"
+          >
+            <FileBarChart className="w-3 h-3" />
+            Report
+          </a>
+        )}
+      </td>
+    </tr>
+  )
+})
+
+export function RunHistoryTable({ className }: RunHistoryTableProps) {
+  const [status, setStatus] = useState<TestStatus | ''>('')
+  const [category, setCategory] = useState<TestCategory | ''>('')
+  const [config, setConfig] = useState<TestConfig | ''>('')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [offset, setOffset] = useState(0)
+
+  const query: TestHistoryQuery = {
+    status: status || undefined,
+    category: category || undefined,
+    config: config || undefined,
+    from: toRangeBound(from, false),
+    to: toRangeBound(to, true),
+    offset,
+    limit: PAGE_SIZE,
+  }
+  const { data, isLoading, isFetching } = useTestHistory(query)
+  const { data: environmentData } = useEnvironments()
+  const configs = environmentData?.environments.map(target => target.name) ?? []
+
+  // Any filter change starts again from the first page
+  const withReset = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value)
+    setOffset(0)
+  }
+
+  const total = data?.total ?? 0
+  const runs = data?.runs ?? []
+
+  return (
+    <div className={cn('flex flex-col', className)}>
+      <div className="flex flex-wrap items-center gap-4 px-4 py-3 border-b border-gray-700 bg-gray-800">
+        <FilterSelect label="Status" value={status} options={STATUSES} onChange={withReset(setStatus)} />
+        <FilterSelect label="Category" value={category} options={CATEGORIES} onChange={withReset(setCategory)} />
+        <FilterSelect label="Config" value={config} options={configs} onChange={withReset(setConfig)} />
+        <label className="flex items-center gap-2 text-xs text-gray-400">
+          From
+          <input
+            type="date"
+            value={from}
+            onChange={e => withReset(setFrom)(e.target.value)}
+            className="bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm text-gray-200"
+          />
+        </label>
+        <label className="flex items-center gap-2 text-xs text-gray-400">
+          To
+          <input
+            type="date"
+            value={to}
+            onChange={e => withReset(setTo)(e.target.value)}
+            className="bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm text-gray-200"
+          />
+        </label>
+        {isFetching && <Loader2 className="w-4 h-4 text-gray-400 animate-spin" />}
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-y-auto">
+        <table className="w-full text-sm text-left">
+          <thead className="sticky top-0 bg-gray-900 text-xs text-gray-500 uppercase">
+            <tr className="border-b border-gray-700">
+              <th className="px-3 py-2 font-medium">Status</th>
+              <th className="px-3 py-2 font-medium">Run</th>
+              <th className="px-3 py-2 font-medium">Category</th>
+              <th className="px-3 py-2 font-medium">Config</th>
+              <th className="px-3 py-2 font-medium">Started By</th>
+              <th className="px-3 py-2 font-medium">Started</th>
+              <th className="px-3 py-2 font-medium">Duration</th>
+              <th className="px-3 py-2 font-medium">Passed / Failed / Skipped</th>
+              <th className="px-3 py-2 font-medium" />
+            </tr>
+          </thead>
+          <tbody>
+            {runs.map(run => (
+              <HistoryTableRow key={run.runId} run={run} />
+            ))}
+          </tbody>
+        </table>
+        {!isLoading && runs.length === 0 && (
+          <div className="px-4 py-8 text-center text-sm text-gray-500">No runs match these filters</div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between px-4 py-2 border-t border-gray-700 bg-gray-800 text-xs text-gray-400">
+        <span>
+          {total === 0 ? '0 runs' : `${offset + 1}-${Math.min(offset + PAGE_SIZE, total)} of ${total} runs`}
+        </span>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+            disabled={offset === 0}
+            className="p-1 rounded hover:bg-gray-700 disabled:opacity-40 disabled:hover:bg-transparent"
+            title="Previous page"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setOffset(offset + PAGE_SIZE)}
+            disabled={offset + PAGE_SIZE >= total}
+            className="p-1 rounded hover:bg-gray-700 disabled:opacity-40 disabled:hover:bg-transparent"
+            title="Next page"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
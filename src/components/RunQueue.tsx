@@ -0,0 +1,81 @@
+'use client'
+
+import { memo } from 'react'
+import { cn } from '@/lib/utils'
+import { Loader2, Clock, X } from 'lucide-react'
+import { useRunQueue } from '@/hooks/queries'
+import { useCancelTest } from '@/hooks/mutations'
+import { useActiveRunId } from '@/store/e2e-store'
+import type { QueuedRunSummary } from '@/types'
+
+interface RunQueueProps {
+  className?: string
+}
+
+const QueueRow = memo(function QueueRow({
+  run,
+  isOwn,
+  isActive,
+}: {
+  run: QueuedRunSummary
+  isOwn: boolean
+  isActive: boolean
+}) {
+  const { mutate: cancelTest, isPending } = useCancelTest()
+
+  return (
+    <div
+      className={cn(
+        'flex items-center gap-2 px-2 py-1 rounded text-xs',
+        isOwn ? 'bg-brand/20' : 'bg-gray-700/50'
+      )}
+    >
+      {isActive ? (
+        <Loader2 className="w-3 h-3 text-blue-400 animate-spin flex-shrink-0" />
+      ) : (
+        <span className="w-3 text-center text-gray-400 flex-shrink-0">{run.queuePosition}</span>
+      )}
+      <span className="text-gray-300 truncate flex-1">
+        {run.category} · {run.config}
+      </span>
+      <span className="text-[10px] text-gray-500 flex-shrink-0">{run.runId.slice(0, 8)}</span>
+      <button
+        onClick={() => cancelTest(run.runId)}
+        disabled={isPending}
+        className="p-0.5 rounded text-gray-500 hover:text-red-400 hover:bg-gray-600 transition-colors"
+        title={isActive ? 'Stop run' : 'Remove from queue'}
+      >
+        {isPending ? <Loader2 className="w-3 h-3 animate-spin" /> : <X className="w-3 h-3" />}
+      </button>
+    </div>
+  )
+})
+
+export function RunQueue({ className }: RunQueueProps) {
+  const { data } = useRunQueue()
+  const activeRunId = useActiveRunId()
+
+  if (!data || (!data.active && data.queued.length === 0)) {
+    return null
+  }
+
+  return (
+    <div className={cn('px-3 py-2 border-b border-gray-700 flex-shrink-0', className)}>
+      <div className="flex items-center justify-between mb-1.5">
+        <span className="text-sm font-medium text-gray-300">Queue</span>
+        <span className="flex items-center gap-1 text-xs text-gray-500">
+          <Clock className="w-3 h-3" />
+          {data.queued.length} waiting
+        </span>
+      </div>
+      <div className="space-y-1">
+        {data.active && (
+          <QueueRow run={data.active} isOwn={data.active.runId === activeRunId} isActive />
+        )}
+        {data.queued.map(run => (
+          <QueueRow key={run.runId} run={run} isOwn={run.runId === activeRunId} isActive={false} />
+        ))}
+      </div>
+    </div>
+  )
+}
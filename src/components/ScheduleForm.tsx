@@ -0,0 +1,133 @@
+'use client'
+
+import { useState, type FormEvent } from 'react'
+import { Loader2, Plus } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { useEnvironments } from '@/hooks/queries'
+import { useCreateSchedule } from '@/hooks/mutations'
+import type { TestCategory } from '@/types'
+
+interface ScheduleFormProps {
+  className?: string
+}
+
+const CATEGORIES: TestCategory[] = ['all', 'auth', 'home', 'project']
+
+const CRON_PRESETS = [
+  { label: 'Hourly', value: '0 * * * *' },
+  { label: 'Nightly (02:00 UTC)', value: '0 2 * * *' },
+  { label: 'Weekdays (09:00 UTC)', value: '0 9 * * 1-5' },
+  { label: 'Weekly (Mon 02:00 UTC)', value: '0 2 * * 1' },
+]
+
+const inputClass = 'bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm text-gray-200 focus:outline-none focus:border-brand'
+
+export function ScheduleForm({ className }: ScheduleFormProps) {
+  const [name, setName] = useState('')
+  const [cron, setCron] = useState(CRON_PRESETS[1].value)
+  const [category, setCategory] = useState<TestCategory>('all')
+  const [config, setConfig] = useState('staging')
+  const [grep, setGrep] = useState('')
+
+  const { data: environmentData } = useEnvironments()
+  const { mutate: createSchedule, isPending, error, reset } = useCreateSchedule()
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault()
+    createSchedule(
+      {
+        name,
+        cron,
+        category,
+        config,
+        selection: grep ? { grep } : undefined,
+      },
+      {
+        onSuccess: () => {
+          setName('')
+          setGrep('')
+        },
+      }
+    )
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      onChange={() => error && reset()}
+      className={cn('flex flex-wrap items-end gap-3 px-4 py-3 border-b border-gray-700 bg-gray-800', className)}
+    >
+      <label className="flex flex-col gap-1 text-xs text-gray-400">
+        Name
+        <input
+          value={name}
+          onChange={e => setName(e.target.value)}
+          placeholder="Nightly staging run"
+          required
+          className={cn(inputClass, 'w-48')}
+        />
+      </label>
+      <label className="flex flex-col gap-1 text-xs text-gray-400">
+        Cron (UTC)
+        <div className="flex gap-1">
+          <input
+            value={cron}
+            onChange={e => setCron(e.target.value)}
+            required
+            className={cn(inputClass, 'w-32 font-mono')}
+          />
+          <select
+            value=""
+            onChange={e => e.target.value && setCron(e.target.value)}
+            className={inputClass}
+          >
+            <option value="">Presets</option>
+            {CRON_PRESETS.map(preset => (
+              <option key={preset.value} value={preset.value}>
+                {preset.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </label>
+      <label className="flex flex-col gap-1 text-xs text-gray-400">
+        Category
+        <select value={category} onChange={e => setCategory(e.target.value as TestCategory)} className={inputClass}>
+          {CATEGORIES.map(value => (
+            <option key={value} value={value}>
+              {value}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex flex-col gap-1 text-xs text-gray-400">
+        Environment
+        <select value={config} onChange={e => setConfig(e.target.value)} className={inputClass}>
+          {(environmentData?.environments ?? []).map(target => (
+            <option key={target.name} value={target.name}>
+              {target.label || target.name}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex flex-col gap-1 text-xs text-gray-400">
+        Grep (optional)
+        <input
+          value={grep}
+          onChange={e => setGrep(e.target.value)}
+          placeholder="@smoke"
+          className={cn(inputClass, 'w-36')}
+        />
+      </label>
+      <button
+        type="submit"
+        disabled={isPending}
+        className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-medium bg-brand hover:bg-brand/90 text-white disabled:opacity-50"
+      >
+        {isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+        Add Schedule
+      </button>
+      {error && <span className="w-full text-xs text-red-400">{error.message}</span>}
+    </form>
+  )
+}
@@ -0,0 +1,148 @@
+'use client'
+
+import { memo } from 'react'
+import Link from 'next/link'
+import { Loader2, Pause, Play, Trash2 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { useSchedules } from '@/hooks/queries'
+import { useDeleteSchedule, useUpdateSchedule } from '@/hooks/mutations'
+import type { ScheduleSummary, TestStatus } from '@/types'
+
+interface ScheduleListProps {
+  className?: string
+}
+
+const statusStyles: Record<TestStatus, string> = {
+  queued: 'bg-gray-600 text-gray-200',
+  running: 'bg-blue-500/20 text-blue-300',
+  completed: 'bg-emerald-500/20 text-emerald-300',
+  failed: 'bg-red-500/20 text-red-300',
+  cancelled: 'bg-gray-600 text-gray-300',
+}
+
+function formatTime(value?: string): string {
+  return value ? new Date(value).toLocaleString() : '-'
+}
+
+const LastOutcome = memo(function LastOutcome({ schedule }: { schedule: ScheduleSummary }) {
+  if (schedule.lastError) {
+    return (
+      <span className="text-xs text-red-400" title={schedule.lastError}>
+        Not started: {schedule.lastError}
+      </span>
+    )
+  }
+
+  const run = schedule.lastRun
+  if (!run) {
+    return <span className="text-gray-600">-</span>
+  }
+
+  return (
+    <span className="flex items-center gap-2">
+      <span className={cn('px-2 py-0.5 rounded text-xs font-medium', statusStyles[run.status])}>
+        {run.status}
+      </span>
+      <Link href={`/runs/${run.runId}`} className="font-mono text-xs text-brand hover:text-white">
+        {run.runId.slice(0, 8)}
+      </Link>
+      {run.results && (
+        <span className="text-xs">
+          <span className="text-emerald-400">{run.results.passed}</span>
+          {' / '}
+          <span className="text-red-400">{run.results.failed}</span>
+        </span>
+      )}
+    </span>
+  )
+})
+
+const ScheduleRow = memo(function ScheduleRow({ schedule }: { schedule: ScheduleSummary }) {
+  const { mutate: updateSchedule, isPending: isUpdating } = useUpdateSchedule()
+  const { mutate: deleteSchedule, isPending: isDeleting } = useDeleteSchedule()
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete schedule "${schedule.name}"?`)) {
+      deleteSchedule(schedule.id)
+    }
+  }
+
+  return (
+    <tr className={cn('border-b border-gray-700/60 hover:bg-gray-800/60', !schedule.enabled && 'opacity-60')}>
+      <td className="px-3 py-2">
+        <div className="text-gray-200">{schedule.name}</div>
+        {schedule.selection?.grep && (
+          <div className="text-[10px] text-gray-500">grep: {schedule.selection.grep}</div>
+        )}
+      </td>
+      <td className="px-3 py-2 font-mono text-xs text-gray-300">{schedule.cron}</td>
+      <td className="px-3 py-2 text-gray-300">{schedule.category}</td>
+      <td className="px-3 py-2 text-gray-300">{schedule.config}</td>
+      <td className="px-3 py-2 text-gray-400">{schedule.enabled ? formatTime(schedule.nextRunAt) : 'Paused'}</td>
+      <td className="px-3 py-2 text-gray-400">{formatTime(schedule.lastRunAt)}</td>
+      <td className="px-3 py-2">
+        <LastOutcome schedule={schedule} />
+      </td>
+      <td className="px-3 py-2">
+        <div className="flex items-center justify-end gap-1">
+          <button
+            onClick={() => updateSchedule({ id: schedule.id, enabled: !schedule.enabled })}
+            disabled={isUpdating}
+            className="p-1.5 rounded text-gray-400 hover:text-white hover:bg-gray-700 disabled:opacity-50"
+            title={schedule.enabled ? 'Pause schedule' : 'Resume schedule'}
+          >
+            {schedule.enabled ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          </button>
+          <button
+            onClick={handleDelete}
+            disabled={isDeleting}
+            className="p-1.5 rounded text-gray-400 hover:text-red-400 hover:bg-gray-700 disabled:opacity-50"
+            title="Delete schedule"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </td>
+    </tr>
+  )
+})
+
+export function ScheduleList({ className }: ScheduleListProps) {
+  const { data, isLoading } = useSchedules()
+  const schedules = data?.schedules ?? []
+
+  if (isLoading) {
+    return (
+      <div className={cn('flex items-center justify-center', className)}>
+        <Loader2 className="w-6 h-6 text-gray-500 animate-spin" />
+      </div>
+    )
+  }
+
+  return (
+    <div className={cn('overflow-y-auto', className)}>
+      <table className="w-full text-sm text-left">
+        <thead className="sticky top-0 bg-gray-900 text-xs text-gray-500 uppercase">
+          <tr className="border-b border-gray-700">
+            <th className="px-3 py-2 font-medium">Name</th>
+            <th className="px-3 py-2 font-medium">Cron (UTC)</th>
+            <th className="px-3 py-2 font-medium">Category</th>
+            <th className="px-3 py-2 font-medium">Environment</th>
+            <th className="px-3 py-2 font-medium">Next Run</th>
+            <th className="px-3 py-2 font-medium">Last Triggered</th>
+            <th className="px-3 py-2 font-medium">Last Outcome</th>
+            <th className="px-3 py-2 font-medium" />
+          </tr>
+        </thead>
+        <tbody>
+          {schedules.map(schedule => (
+            <ScheduleRow key={schedule.id} schedule={schedule} />
+          ))}
+        </tbody>
+      </table>
+      {schedules.length === 0 && (
+        <div className="px-4 py-8 text-center text-sm text-gray-500">No schedules yet</div>
+      )}
+    </div>
+  )
+}
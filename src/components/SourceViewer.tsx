@@ -0,0 +1,94 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+import { FileCode, Loader2, X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { useSourceSnippet } from '@/hooks/queries'
+import type { SourceLocation } from '@/lib/source-locations'
+
+interface SourceViewerProps {
+  location: SourceLocation
+  onClose: () => void
+}
+
+/**
+ * Modal with the lines of a spec or page object around a stack frame.
+ */
+export function SourceViewer({ location, onClose }: SourceViewerProps) {
+  const { data, isLoading, isError, error } = useSourceSnippet(location.file, location.line)
+  const targetRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  useEffect(() => {
+    targetRef.current?.scrollIntoView({ block: 'center' })
+  }, [data])
+
+  const lineNumberWidth = String(data ? data.startLine + data.lines.length - 1 : location.line).length
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+      <div
+        className="flex flex-col w-full max-w-4xl max-h-[80vh] bg-zinc-900 border border-zinc-700 rounded-lg shadow-xl overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-2 px-4 py-2 bg-zinc-800 border-b border-zinc-700 flex-shrink-0">
+          <FileCode className="w-4 h-4 text-zinc-400 flex-shrink-0" />
+          <span className="flex-1 min-w-0 truncate font-mono text-sm text-zinc-200">
+            {location.file}:{location.line}
+            {location.column !== undefined && `:${location.column}`}
+          </span>
+          {data && <span className="text-xs text-zinc-500 flex-shrink-0">{data.totalLines} lines</span>}
+          <button
+            onClick={onClose}
+            className="p-1 text-zinc-400 hover:text-white rounded transition-colors"
+            title="Close"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-auto py-2">
+          {isLoading ? (
+            <div className="flex items-center justify-center p-6 text-zinc-500">
+              <Loader2 className="w-5 h-5 animate-spin" />
+            </div>
+          ) : isError || !data ? (
+            <div className="p-6 text-center text-sm text-red-400">
+              {error instanceof Error ? error.message : 'Failed to fetch source'}
+            </div>
+          ) : (
+            data.lines.map((text, i) => {
+              const lineNumber = data.startLine + i
+              const isTarget = lineNumber === data.line
+              return (
+                <div
+                  key={lineNumber}
+                  ref={isTarget ? targetRef : undefined}
+                  className={cn('flex font-mono text-sm leading-relaxed', isTarget && 'bg-red-500/15')}
+                >
+                  <span
+                    className={cn(
+                      'px-3 text-right select-none flex-shrink-0 border-r',
+                      isTarget ? 'text-red-300 border-red-400' : 'text-zinc-600 border-zinc-800'
+                    )}
+                    style={{ minWidth: `${lineNumberWidth + 2}ch` }}
+                  >
+                    {lineNumber}
+                  </span>
+                  <pre className="px-3 m-0 whitespace-pre text-zinc-200">{text || ' '}</pre>
+                </div>
+              )
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
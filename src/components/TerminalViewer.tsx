@@ -1,80 +1,101 @@
 'use client'
 
-import { useEffect, useRef, useCallback, memo } from 'react'
+import { useEffect, useRef, useCallback, useDeferredValue, useMemo, useState, memo } from 'react'
 import { useVirtualizer } from '@tanstack/react-virtual'
+import { useQueryClient } from '@tanstack/react-query'
+import { ChevronDown, ChevronUp, Loader2, Search, AlertCircle, X } from 'lucide-react'
 import { cn } from '@/lib/utils'
-import { useLogs, useAutoScroll, useE2EDashboardStore } from '@/store/e2e-store'
-import type { LogEntry } from '@/types'
+import { parseAnsi, stripAnsi, toCssProperties } from '@/lib/ansi'
+import { findSourceLocations, type SourceLocation } from '@/lib/source-locations'
+import {
+  useLogs,
+  useDroppedLogs,
+  useAutoScroll,
+  useActiveRunId,
+  useLogScenarioId,
+  useScenarios,
+  useE2EDashboardStore,
+} from '@/store/e2e-store'
+import { e2eQueries, useRunLogs } from '@/hooks/queries'
+import { SourceViewer } from './SourceViewer'
+import type { IndexedLogEntry, LogEntry } from '@/types'
 
 interface TerminalViewerProps {
   className?: string
 }
 
-const colorMap: Record<string, string> = {
-  '30': '#2e2e2e',
-  '31': '#ff5f57',
-  '32': '#28c941',
-  '33': '#febc2e',
-  '34': '#28c0de',
-  '35': '#d88fd8',
-  '36': '#19bbd2',
-  '37': '#dcdfe4',
-  '90': '#6d7681',
-  '91': '#ff8785',
-  '92': '#56d364',
-  '93': '#e3b341',
-  '94': '#58a6ff',
-  '95': '#bc8cff',
-  '96': '#39c5cf',
-  '97': '#ffffff',
-}
+const LOG_TYPES: LogEntry['type'][] = ['stdout', 'stderr', 'info', 'error']
+// The only lines tagged with the test that printed them
+const SCENARIO_LOG_TYPES: LogEntry['type'][] = ['stdout', 'stderr']
+// Lines fetched per "Load earlier" click
+const EARLIER_PAGE_SIZE = 500
 
-function parseAnsiLine(line: string): React.ReactNode {
-  const ansiRegex = /\x1b\[([0-9;]+)m/g
+/**
+ * Wrap case-insensitive occurrences of `query` (already lowercased) in <mark>.
+ */
+function highlightText(text: string, query: string | undefined): React.ReactNode {
+  if (!query) return text
 
+  const lower = text.toLowerCase()
   const parts: React.ReactNode[] = []
-  let lastIndex = 0
-  let match: RegExpExecArray | null
-  let currentStyle: React.CSSProperties = {}
-
-  while ((match = ansiRegex.exec(line)) !== null) {
-    if (match.index > lastIndex) {
-      parts.push(
-        <span key={parts.length} style={currentStyle}>
-          {line.slice(lastIndex, match.index)}
-        </span>
-      )
-    }
-
-    const matchGroup = match[1]
-    if (!matchGroup) continue
-    const codes = matchGroup.split(';')
-    for (const code of codes) {
-      if (code === '0') {
-        currentStyle = {}
-      } else if (code === '1') {
-        currentStyle = { ...currentStyle, fontWeight: 'bold' }
-      } else if (code === '2') {
-        currentStyle = { ...currentStyle, opacity: 0.7 }
-      } else if (colorMap[code]) {
-        currentStyle = { ...currentStyle, color: colorMap[code] }
-      } else if (code.startsWith('4') && colorMap[code.slice(1)]) {
-        currentStyle = { ...currentStyle, backgroundColor: colorMap[code.slice(1)] }
-      }
-    }
-
-    lastIndex = match.index + match[0].length
+  let from = 0
+  let index: number
+  while ((index = lower.indexOf(query, from)) !== -1) {
+    if (index > from) parts.push(text.slice(from, index))
+    parts.push(
+      <mark key={index} className="bg-yellow-400/40 text-inherit rounded-sm">
+        {text.slice(index, index + query.length)}
+      </mark>
+    )
+    from = index + query.length
   }
+  if (parts.length === 0) return text
+  if (from < text.length) parts.push(text.slice(from))
+  return parts
+}
 
-  if (lastIndex < line.length) {
+function renderText(
+  text: string,
+  highlight: string | undefined,
+  onOpenSource: ((location: SourceLocation) => void) | undefined
+): React.ReactNode {
+  const locations = onOpenSource ? findSourceLocations(text) : []
+  if (locations.length === 0) return highlightText(text, highlight)
+
+  const parts: React.ReactNode[] = []
+  let from = 0
+  for (const { index, length, file, line, column } of locations) {
+    if (index > from) parts.push(highlightText(text.slice(from, index), highlight))
     parts.push(
-      <span key={parts.length} style={currentStyle}>
-        {line.slice(lastIndex)}
-      </span>
+      <button
+        key={index}
+        type="button"
+        onClick={() => onOpenSource?.({ file, line, column })}
+        className="underline decoration-dotted underline-offset-2 hover:text-white hover:decoration-solid"
+        title={`Open ${file}:${line}`}
+      >
+        {highlightText(text.slice(index, index + length), highlight)}
+      </button>
     )
+    from = index + length
   }
+  if (from < text.length) parts.push(highlightText(text.slice(from), highlight))
+  return parts
+}
 
-  return parts.length > 0 ? parts : line
+/**
+ * Render a line's ANSI styles, search highlights and links to source files.
+ */
+function renderLine(
+  line: string,
+  highlight?: string,
+  onOpenSource?: (location: SourceLocation) => void
+): React.ReactNode {
+  return parseAnsi(line).map((segment, i) => (
+    <span key={i} style={toCssProperties(segment.style)}>
+      {renderText(segment.text, highlight, onOpenSource)}
+    </span>
+  ))
 }
 
 function getLineColor(type: LogEntry['type']): string {
@@ -92,33 +113,157 @@ function getLineColor(type: LogEntry['type']): string {
 
 const LogLine = memo(function LogLine({
   log,
+  highlight,
+  isCurrent,
+  onOpenSource,
 }: {
   log: LogEntry
+  highlight?: string
+  isCurrent?: boolean
+  onOpenSource?: (location: SourceLocation) => void
 }) {
   return (
     <div
       className={cn(
         'py-0.5 px-4 leading-relaxed',
-        getLineColor(log.type)
+        getLineColor(log.type),
+        isCurrent && 'bg-zinc-700/60'
       )}
     >
       <pre className="whitespace-pre-wrap break-all font-mono text-sm m-0">
-        {parseAnsiLine(log.content)}
+        {renderLine(log.content, highlight, onOpenSource)}
       </pre>
     </div>
   )
 })
 
+const TypeToggle = memo(function TypeToggle({
+  type,
+  isShown,
+  onToggle,
+}: {
+  type: LogEntry['type']
+  isShown: boolean
+  onToggle: (type: LogEntry['type']) => void
+}) {
+  return (
+    <button
+      onClick={() => onToggle(type)}
+      className={cn(
+        'px-2 py-0.5 text-xs rounded transition-colors',
+        isShown ? cn('bg-zinc-700', getLineColor(type)) : 'text-zinc-500 hover:text-zinc-300 line-through'
+      )}
+      title={isShown ? `Hide ${type} lines` : `Show ${type} lines`}
+    >
+      {type}
+    </button>
+  )
+})
+
+const NavButtons = memo(function NavButtons({
+  label,
+  disabled,
+  onPrevious,
+  onNext,
+}: {
+  label: string
+  disabled: boolean
+  onPrevious: () => void
+  onNext: () => void
+}) {
+  return (
+    <div className="flex items-center">
+      <button
+        onClick={onPrevious}
+        disabled={disabled}
+        className="p-0.5 text-zinc-400 hover:text-white disabled:opacity-40 rounded"
+        title={`Previous ${label}`}
+      >
+        <ChevronUp className="w-4 h-4" />
+      </button>
+      <button
+        onClick={onNext}
+        disabled={disabled}
+        className="p-0.5 text-zinc-400 hover:text-white disabled:opacity-40 rounded"
+        title={`Next ${label}`}
+      >
+        <ChevronDown className="w-4 h-4" />
+      </button>
+    </div>
+  )
+})
+
 export function TerminalViewer({ className }: TerminalViewerProps) {
   const logs = useLogs()
+  const droppedLogs = useDroppedLogs()
+  const runId = useActiveRunId()
   const autoScroll = useAutoScroll()
-  const { toggleAutoScroll, clearLogs } = useE2EDashboardStore()
+  const logScenarioId = useLogScenarioId()
+  const scenarios = useScenarios()
+  const { toggleAutoScroll, clearLogs, setLogScenario } = useE2EDashboardStore()
+  const queryClient = useQueryClient()
   const parentRef = useRef<HTMLDivElement>(null)
   const isUserScrolling = useRef(false)
   const lastLogCount = useRef(0)
 
+  const [hiddenTypes, setHiddenTypes] = useState<Set<LogEntry['type']>>(new Set())
+  const [search, setSearch] = useState('')
+  const [currentMatch, setCurrentMatch] = useState(-1)
+  const errorCursor = useRef(-1)
+  // Lines before the store's copy, fetched from the server
+  const [earlierLogs, setEarlierLogs] = useState<IndexedLogEntry[]>([])
+  const [isLoadingEarlier, setIsLoadingEarlier] = useState(false)
+  const [sourceLocation, setSourceLocation] = useState<SourceLocation | null>(null)
+
+  const query = useDeferredValue(search.trim().toLowerCase())
+  const shownTypes = useMemo(
+    () => (logScenarioId ? SCENARIO_LOG_TYPES : LOG_TYPES).filter(type => !hiddenTypes.has(type)),
+    [hiddenTypes, logScenarioId]
+  )
+  const logScenarioName = logScenarioId
+    ? scenarios.find(scenario => scenario.id === logScenarioId)?.name ?? logScenarioId
+    : null
+  const earlierStart = earlierLogs[0]?.index ?? droppedLogs
+  const earlierEnd = earlierLogs.length > 0 ? earlierLogs[earlierLogs.length - 1].index + 1 : droppedLogs
+
+  const visibleLogs = useMemo(
+    () => [...earlierLogs, ...logs].filter(log =>
+      shownTypes.includes(log.type) && (!logScenarioId || log.scenarioId === logScenarioId)
+    ),
+    [earlierLogs, logs, shownTypes, logScenarioId]
+  )
+
+  const matchIndices = useMemo(() => {
+    if (!query) return []
+    const indices: number[] = []
+    visibleLogs.forEach((log, index) => {
+      if (stripAnsi(log.content).toLowerCase().includes(query)) indices.push(index)
+    })
+    return indices
+  }, [visibleLogs, query])
+
+  const errorIndices = useMemo(() => {
+    const indices: number[] = []
+    visibleLogs.forEach((log, index) => {
+      if (log.type === 'error') indices.push(index)
+    })
+    return indices
+  }, [visibleLogs])
+
+  // Count matches in the part of the log that isn't loaded
+  const { data: fullLogMatches } = useRunLogs(
+    runId,
+    {
+      q: query,
+      type: shownTypes.length < LOG_TYPES.length ? shownTypes : undefined,
+      scenario: logScenarioId ?? undefined,
+      limit: 0,
+    },
+    !!query && earlierStart > 0
+  )
+
   const virtualizer = useVirtualizer({
-    count: logs.length,
+    count: visibleLogs.length,
     getScrollElement: () => parentRef.current,
     estimateSize: () => 28,
     overscan: 10,
@@ -127,14 +272,103 @@ export function TerminalViewer({ className }: TerminalViewerProps) {
     },
   })
 
+  useEffect(() => {
+    setEarlierLogs([])
+  }, [runId])
+
+  useEffect(() => {
+    setCurrentMatch(-1)
+  }, [query, logScenarioId])
+
+  const fetchLogs = useCallback(async (offset: number, limit: number) => {
+    if (!runId || limit <= 0) return []
+    const page = await queryClient.fetchQuery(e2eQueries.runLogs(runId, { offset, limit }))
+    return page.logs
+  }, [runId, queryClient])
+
+  // While earlier lines are shown, keep them joined to the store's copy as it trims
+  useEffect(() => {
+    if (earlierLogs.length === 0 || droppedLogs <= earlierEnd) return
+    let cancelled = false
+    fetchLogs(earlierEnd, droppedLogs - earlierEnd)
+      .then(page => {
+        if (!cancelled) setEarlierLogs(current => [...current, ...page])
+      })
+      .catch(error => console.error('Failed to fetch logs:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [earlierLogs.length, earlierEnd, droppedLogs, fetchLogs])
+
+  const stopAutoScroll = useCallback(() => {
+    isUserScrolling.current = true
+    if (autoScroll) toggleAutoScroll()
+  }, [autoScroll, toggleAutoScroll])
+
+  const handleLoadEarlier = useCallback(async () => {
+    const offset = Math.max(0, earlierStart - EARLIER_PAGE_SIZE)
+    setIsLoadingEarlier(true)
+    try {
+      const page = await fetchLogs(offset, earlierStart - offset)
+      stopAutoScroll()
+      setEarlierLogs(current => [...page, ...current])
+      // Keep the line that was at the top in view
+      requestAnimationFrame(() => {
+        virtualizer.scrollToIndex(page.length, { align: 'start' })
+      })
+    } catch (error) {
+      console.error('Failed to fetch logs:', error)
+    } finally {
+      setIsLoadingEarlier(false)
+    }
+  }, [earlierStart, fetchLogs, stopAutoScroll, virtualizer])
+
+  const handleClear = useCallback(() => {
+    setEarlierLogs([])
+    clearLogs()
+  }, [clearLogs])
+
+  const toggleType = useCallback((type: LogEntry['type']) => {
+    setHiddenTypes(current => {
+      const next = new Set(current)
+      if (next.has(type)) next.delete(type)
+      else next.add(type)
+      return next
+    })
+  }, [])
+
+  const scrollToLine = useCallback((index: number) => {
+    stopAutoScroll()
+    virtualizer.scrollToIndex(index, { align: 'center' })
+  }, [stopAutoScroll, virtualizer])
+
+  const goToMatch = useCallback((direction: 1 | -1) => {
+    if (matchIndices.length === 0) return
+    const next = currentMatch < 0
+      ? (direction === 1 ? 0 : matchIndices.length - 1)
+      : (currentMatch + direction + matchIndices.length) % matchIndices.length
+    setCurrentMatch(next)
+    scrollToLine(matchIndices[next])
+  }, [matchIndices, currentMatch, scrollToLine])
+
+  const goToError = useCallback((direction: 1 | -1) => {
+    if (errorIndices.length === 0) return
+    const cursor = errorCursor.current
+    const target = direction === 1
+      ? errorIndices.find(index => index > cursor) ?? errorIndices[0]
+      : [...errorIndices].reverse().find(index => index < cursor) ?? errorIndices[errorIndices.length - 1]
+    errorCursor.current = target
+    scrollToLine(target)
+  }, [errorIndices, scrollToLine])
+
   useEffect(() => {
     if (autoScroll && logs.length > lastLogCount.current && !isUserScrolling.current) {
       requestAnimationFrame(() => {
-        virtualizer.scrollToIndex(logs.length - 1, { align: 'end' })
+        virtualizer.scrollToIndex(visibleLogs.length - 1, { align: 'end' })
       })
     }
     lastLogCount.current = logs.length
-  }, [logs.length, autoScroll, virtualizer])
+  }, [logs.length, visibleLogs.length, autoScroll, virtualizer])
 
   const handleScroll = useCallback(() => {
     if (!parentRef.current) return
@@ -159,6 +393,8 @@ export function TerminalViewer({ className }: TerminalViewerProps) {
   }, [logs.length])
 
   const items = virtualizer.getVirtualItems()
+  const currentLine = currentMatch >= 0 ? matchIndices[currentMatch] : -1
+  const unloadedMatches = fullLogMatches && query ? fullLogMatches.total - matchIndices.length : 0
 
   return (
     <div className={cn('flex flex-col h-full min-h-0 overflow-hidden', className)}>
@@ -166,8 +402,18 @@ export function TerminalViewer({ className }: TerminalViewerProps) {
         <div className="flex items-center gap-2">
           <span className="text-sm text-zinc-400">Terminal</span>
           <span className="text-xs text-zinc-500">
-            {logs.length.toLocaleString()} lines
+            {visibleLogs.length.toLocaleString()} lines
           </span>
+          {logScenarioName && (
+            <button
+              onClick={() => setLogScenario(null)}
+              className="flex items-center gap-1 max-w-xs px-2 py-0.5 text-xs bg-zinc-700 text-zinc-200 rounded hover:bg-zinc-600 transition-colors"
+              title="Show all output"
+            >
+              <span className="truncate">Output of {logScenarioName}</span>
+              <X className="w-3 h-3 flex-shrink-0" />
+            </button>
+          )}
         </div>
         <div className="flex items-center gap-2">
           <button
@@ -182,7 +428,7 @@ export function TerminalViewer({ className }: TerminalViewerProps) {
             Auto-scroll {autoScroll ? 'ON' : 'OFF'}
           </button>
           <button
-            onClick={clearLogs}
+            onClick={handleClear}
             className="px-2 py-1 text-xs bg-zinc-700 text-zinc-300 rounded hover:bg-zinc-600 transition-colors"
           >
             Clear
@@ -190,14 +436,79 @@ export function TerminalViewer({ className }: TerminalViewerProps) {
         </div>
       </div>
 
+      <div className="flex items-center gap-3 px-4 py-1.5 bg-zinc-800 border-b border-zinc-700 flex-shrink-0">
+        <div className="flex items-center gap-1">
+          {(logScenarioId ? SCENARIO_LOG_TYPES : LOG_TYPES).map(type => (
+            <TypeToggle key={type} type={type} isShown={!hiddenTypes.has(type)} onToggle={toggleType} />
+          ))}
+        </div>
+
+        <div className="flex items-center gap-1 flex-1 min-w-0 max-w-md bg-zinc-900 border border-zinc-700 rounded px-2">
+          <Search className="w-3.5 h-3.5 text-zinc-500 flex-shrink-0" />
+          <input
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Enter') goToMatch(e.shiftKey ? -1 : 1)
+              if (e.key === 'Escape') setSearch('')
+            }}
+            placeholder="Search logs"
+            className="flex-1 min-w-0 bg-transparent py-1 text-xs text-zinc-200 placeholder-zinc-500 outline-none"
+          />
+          {query && (
+            <span className="text-xs text-zinc-500 flex-shrink-0">
+              {matchIndices.length > 0 ? `${currentMatch + 1 || '-'}/${matchIndices.length}` : 'No matches'}
+            </span>
+          )}
+          <NavButtons
+            label="match"
+            disabled={matchIndices.length === 0}
+            onPrevious={() => goToMatch(-1)}
+            onNext={() => goToMatch(1)}
+          />
+        </div>
+
+        <div className="flex items-center gap-1 text-xs text-zinc-400">
+          <AlertCircle className="w-3.5 h-3.5 text-red-400" />
+          {errorIndices.length} errors
+          <NavButtons
+            label="error"
+            disabled={errorIndices.length === 0}
+            onPrevious={() => goToError(-1)}
+            onNext={() => goToError(1)}
+          />
+        </div>
+      </div>
+
+      {earlierStart > 0 && (
+        <div className="flex items-center gap-2 px-4 py-1 bg-zinc-800/60 border-b border-zinc-700 text-xs text-zinc-400 flex-shrink-0">
+          <span>
+            {earlierStart.toLocaleString()} earlier lines not loaded
+            {unloadedMatches > 0 && ` (${unloadedMatches.toLocaleString()} more matches)`}
+          </span>
+          <button
+            onClick={handleLoadEarlier}
+            disabled={isLoadingEarlier || !runId}
+            className="flex items-center gap-1 px-2 py-0.5 bg-zinc-700 text-zinc-300 rounded hover:bg-zinc-600 disabled:opacity-50 transition-colors"
+          >
+            {isLoadingEarlier && <Loader2 className="w-3 h-3 animate-spin" />}
+            Load earlier
+          </button>
+        </div>
+      )}
+
       <div
         ref={parentRef}
         onScroll={handleScroll}
         className="flex-1 overflow-auto bg-zinc-900 min-h-0"
       >
-        {logs.length === 0 ? (
+        {visibleLogs.length === 0 ? (
           <div className="p-4 text-zinc-500 italic font-mono text-sm">
-            No logs yet. Start a test run to see output.
+            {logs.length === 0
+              ? 'No logs yet. Start a test run to see output.'
+              : logScenarioId
+              ? 'No output from this test.'
+              : 'No lines of the selected types.'}
           </div>
         ) : (
           <div
@@ -208,7 +519,7 @@ export function TerminalViewer({ className }: TerminalViewerProps) {
             }}
           >
             {items.map((virtualRow) => {
-              const log = logs[virtualRow.index]
+              const log = visibleLogs[virtualRow.index]
               if (!log) return null
               return (
                 <div
@@ -223,13 +534,22 @@ export function TerminalViewer({ className }: TerminalViewerProps) {
                     transform: `translateY(${virtualRow.start}px)`,
                   }}
                 >
-                  <LogLine log={log} />
+                  <LogLine
+                    log={log}
+                    highlight={query || undefined}
+                    isCurrent={virtualRow.index === currentLine}
+                    onOpenSource={setSourceLocation}
+                  />
                 </div>
               )
             })}
           </div>
         )}
       </div>
+
+      {sourceLocation && (
+        <SourceViewer location={sourceLocation} onClose={() => setSourceLocation(null)} />
+      )}
     </div>
   )
 }
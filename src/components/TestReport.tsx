@@ -1,6 +1,7 @@
 'use client'
 
 import { memo, useMemo, useState } from 'react'
+import Image from 'next/image'
 import { cn } from '@/lib/utils'
 import {
   Check,
@@ -11,9 +12,17 @@ import {
   ChevronDown,
   ChevronRight,
   FileText,
+  RotateCcw,
+  Loader2,
+  Video,
+  Download,
+  ExternalLink,
+  FileBarChart,
 } from 'lucide-react'
-import { useTestResults, useScenarios, useTestStatus, useE2EDashboardStore } from '@/store/e2e-store'
-import type { TestScenario } from '@/types'
+import { useTestResults, useScenarios, useTestStatus, useActiveRunId, useE2EDashboardStore } from '@/store/e2e-store'
+import { useRerunFailed } from '@/hooks/mutations'
+import { useTestStatus as useRunStatus } from '@/hooks/queries'
+import type { RunExportFormat, TestScenario } from '@/types'
 
 interface TestReportProps {
   className?: string
@@ -52,6 +61,80 @@ const ErrorSection = memo(function ErrorSection({
   )
 })
 
+function getTraceViewerUrl(traceUrl: string): string {
+  // The viewer's service worker fetches the trace, so it needs an absolute URL
+  const absoluteTraceUrl = new URL(traceUrl, window.location.origin).toString()
+  return `/api/e2e/trace-viewer/index.html?trace=${encodeURIComponent(absoluteTraceUrl)}`
+}
+
+const AttachmentSection = memo(function AttachmentSection({
+  scenario,
+}: {
+  scenario: TestScenario
+}) {
+  const attachments = scenario.attachments ?? []
+  if (attachments.length === 0) return null
+
+  // The last screenshot belongs to the final failed attempt
+  const screenshot = attachments.filter(a => a.contentType.startsWith('image/')).pop()
+  const videos = attachments.filter(a => a.name === 'video')
+  const traces = attachments.filter(a => a.name === 'trace')
+
+  return (
+    <div className="mt-2 space-y-2">
+      {screenshot && (
+        <a href={screenshot.url} target="_blank" rel="noreferrer" className="block">
+          {/* Served as-is by the reports route; the size is Playwright's default viewport */}
+          <Image
+            src={screenshot.url}
+            alt={`Failure screenshot for ${scenario.name}`}
+            width={1280}
+            height={720}
+            unoptimized
+            className="w-auto h-auto max-h-80 rounded border border-gray-200"
+          />
+        </a>
+      )}
+      {(videos.length > 0 || traces.length > 0) && (
+        <div className="flex flex-wrap items-center gap-2">
+          {videos.map(video => (
+            <a
+              key={video.path}
+              href={`${video.url}?download=1`}
+              className="flex items-center gap-1 px-2 py-1 text-xs text-gray-700 bg-gray-100 hover:bg-gray-200 rounded transition-colors"
+            >
+              <Video className="w-3 h-3" />
+              Video (attempt {video.retry + 1})
+            </a>
+          ))}
+          {traces.map(trace => (
+            <a
+              key={`${trace.path}-viewer`}
+              href={getTraceViewerUrl(trace.url)}
+              target="_blank"
+              rel="noreferrer"
+              className="flex items-center gap-1 px-2 py-1 text-xs text-white bg-brand hover:bg-brand/90 rounded transition-colors"
+            >
+              <ExternalLink className="w-3 h-3" />
+              Open trace (attempt {trace.retry + 1})
+            </a>
+          ))}
+          {traces.map(trace => (
+            <a
+              key={trace.path}
+              href={`${trace.url}?download=1`}
+              className="flex items-center gap-1 px-2 py-1 text-xs text-gray-700 bg-gray-100 hover:bg-gray-200 rounded transition-colors"
+            >
+              <Download className="w-3 h-3" />
+              Trace (attempt {trace.retry + 1})
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+})
+
 const FailedTestItem = memo(function FailedTestItem({
   scenario,
 }: {
@@ -77,11 +160,36 @@ const FailedTestItem = memo(function FailedTestItem({
           )}
         </div>
       </div>
+      <AttachmentSection scenario={scenario} />
       <ErrorSection scenario={scenario} />
     </div>
   )
 })
 
+const EXPORT_OPTIONS: Array<{ format: RunExportFormat; label: string }> = [
+  { format: 'junit', label: 'JUnit' },
+  { format: 'json', label: 'JSON' },
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'csv', label: 'CSV' },
+]
+
+const ExportLinks = memo(function ExportLinks({ runId }: { runId: string }) {
+  return (
+    <div className="flex items-center gap-1 text-sm text-gray-600">
+      <Download className="w-4 h-4" />
+      {EXPORT_OPTIONS.map(({ format, label }) => (
+        <a
+          key={format}
+          href={`/api/e2e/runs/${runId}/export?format=${format}&download=1`}
+          className="px-1.5 py-1 hover:text-gray-900 hover:bg-gray-100 rounded transition-colors"
+        >
+          {label}
+        </a>
+      ))}
+    </div>
+  )
+})
+
 const SummaryCard = memo(function SummaryCard({
   title,
   count,
@@ -110,7 +218,11 @@ export function TestReport({ className }: TestReportProps) {
   const results = useTestResults()
   const scenarios = useScenarios()
   const status = useTestStatus()
+  const activeRunId = useActiveRunId()
   const { toggleReport } = useE2EDashboardStore()
+  const { mutate: rerunFailed, isPending: isRerunPending } = useRerunFailed()
+  const { data: runStatus } = useRunStatus(activeRunId)
+  const reportUrl: string | undefined = runStatus?.reportUrl
 
   const failedScenarios = useMemo(
     () => scenarios.filter(s => s.status === 'failed'),
@@ -166,12 +278,40 @@ export function TestReport({ className }: TestReportProps) {
               )}
             </div>
           </div>
-          <button
-            onClick={toggleReport}
-            className="px-3 py-1 text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded transition-colors"
-          >
-            Close
-          </button>
+          <div className="flex items-center gap-2">
+            {activeRunId && <ExportLinks runId={activeRunId} />}
+            {reportUrl && (
+              <a
+                href={reportUrl}
+                target="_blank"
+                rel="noreferrer"
+                className="flex items-center gap-1.5 px-3 py-1 text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded transition-colors"
+              >
+                <FileBarChart className="w-4 h-4" />
+                HTML report
+              </a>
+            )}
+            {failedScenarios.length > 0 && activeRunId && (
+              <button
+                onClick={() => rerunFailed(activeRunId)}
+                disabled={isRerunPending}
+                className="flex items-center gap-1.5 px-3 py-1 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded transition-colors"
+              >
+                {isRerunPending ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  <RotateCcw className="w-4 h-4" />
+                )}
+                Re-run failed ({failedScenarios.length})
+              </button>
+            )}
+            <button
+              onClick={toggleReport}
+              className="px-3 py-1 text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded transition-colors"
+            >
+              Close
+            </button>
+          </div>
         </div>
       </div>
 
@@ -1,11 +1,18 @@
 'use client'
 
-import { memo, useMemo, useState } from 'react'
+import { memo, useCallback, useMemo, useState } from 'react'
 import { cn } from '@/lib/utils'
-import { Check, X, Loader2, Clock, ChevronDown, ChevronRight } from 'lucide-react'
-import { useScenarios, useSelectedCategory, useActiveRunId } from '@/store/e2e-store'
-import { useTestList } from '@/hooks/queries'
-import type { TestScenario, TestScenarioStatus } from '@/types'
+import { Check, X, Loader2, Clock, ChevronDown, ChevronRight, TrendingUp } from 'lucide-react'
+import {
+  useScenarios,
+  useSelectedCategory,
+  useActiveRunId,
+  useSelectedTestIds,
+  useLogScenarioId,
+  useE2EDashboardStore,
+} from '@/store/e2e-store'
+import { useTestList, useDurationTrends, useTestStatus } from '@/hooks/queries'
+import type { ScenarioDurationTrend, TestScenario, TestScenarioStatus, TestSelection } from '@/types'
 
 interface TestScenarioListProps {
   className?: string
@@ -22,7 +29,61 @@ const StatusDot = memo(function StatusDot({ status }: { status: TestScenarioStat
   return <div className={cn('w-2 h-2 rounded-full flex-shrink-0', styles[status])} />
 })
 
-const ScenarioRow = memo(function ScenarioRow({ scenario }: { scenario: TestScenario }) {
+function formatDuration(ms: number): string {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`
+}
+
+const DurationSparkline = memo(function DurationSparkline({ trend }: { trend: ScenarioDurationTrend }) {
+  const durations = trend.samples.map(sample => sample.duration)
+  if (durations.length < 2) return null
+
+  const width = 40
+  const height = 12
+  const max = Math.max(...durations)
+  const min = Math.min(...durations)
+  const range = max - min || 1
+  const points = durations
+    .map((duration, i) => {
+      const x = (i / (durations.length - 1)) * width
+      const y = height - ((duration - min) / range) * (height - 2) - 1
+      return `${x.toFixed(1)},${y.toFixed(1)}`
+    })
+    .join(' ')
+
+  const title = trend.baseline !== null && trend.latest !== null && trend.change !== null
+    ? `Last ${durations.length} passes · median ${formatDuration(trend.baseline)}, latest ${formatDuration(trend.latest)} (${trend.change >= 0 ? '+' : ''}${Math.round(trend.change * 100)}%)`
+    : `Last ${durations.length} passes`
+
+  return (
+    <span className="flex items-center gap-0.5 flex-shrink-0" title={title}>
+      {trend.regressed && <TrendingUp className="w-3 h-3 text-orange-400" />}
+      <svg width={width} height={height} className="overflow-visible">
+        <polyline
+          points={points}
+          fill="none"
+          strokeWidth={1}
+          className={trend.regressed ? 'stroke-orange-400' : 'stroke-gray-500'}
+        />
+      </svg>
+    </span>
+  )
+})
+
+const ScenarioRow = memo(function ScenarioRow({
+  scenario,
+  selected,
+  onToggle,
+  trend,
+  isShowingLogs,
+  onShowLogs,
+}: {
+  scenario: TestScenario
+  selected?: boolean
+  onToggle?: (testIds: string[]) => void
+  trend?: ScenarioDurationTrend
+  isShowingLogs?: boolean
+  onShowLogs?: (scenarioId: string) => void
+}) {
   const statusColors: Record<TestScenarioStatus, string> = {
     passed: 'text-emerald-400',
     failed: 'text-red-400',
@@ -40,14 +101,32 @@ const ScenarioRow = memo(function ScenarioRow({ scenario }: { scenario: TestScen
   }
 
   return (
-    <div className={cn('flex items-center gap-2 px-2 py-1 rounded transition-colors', bgColors[scenario.status])}>
+    <div
+      onClick={onShowLogs && (() => onShowLogs(scenario.id))}
+      title={onShowLogs && (isShowingLogs ? 'Show all output' : "Show this test's output")}
+      className={cn(
+        'flex items-center gap-2 px-2 py-1 rounded transition-colors',
+        bgColors[scenario.status],
+        onShowLogs && 'cursor-pointer',
+        isShowingLogs && 'ring-1 ring-inset ring-brand'
+      )}
+    >
+      {onToggle && (
+        <input
+          type="checkbox"
+          checked={!!selected}
+          onChange={() => onToggle([scenario.id])}
+          className="w-3 h-3 flex-shrink-0 accent-brand cursor-pointer"
+        />
+      )}
       <StatusDot status={scenario.status} />
       <span className={cn('text-xs truncate flex-1', statusColors[scenario.status])}>
         {scenario.name}
       </span>
-      {scenario.duration && (
+      {trend && <DurationSparkline trend={trend} />}
+      {scenario.duration !== undefined && (
         <span className="text-[10px] text-gray-600 flex-shrink-0">
-          {scenario.duration >= 1000 ? `${(scenario.duration / 1000).toFixed(1)}s` : `${scenario.duration}ms`}
+          {formatDuration(scenario.duration)}
         </span>
       )}
     </div>
@@ -58,10 +137,20 @@ const FileGroup = memo(function FileGroup({
   file,
   scenarios,
   defaultExpanded = true,
+  selectedIds,
+  onToggle,
+  trends,
+  logScenarioId,
+  onShowLogs,
 }: {
   file: string
   scenarios: TestScenario[]
   defaultExpanded?: boolean
+  selectedIds?: Set<string>
+  onToggle?: (testIds: string[]) => void
+  trends?: Map<string, ScenarioDurationTrend>
+  logScenarioId?: string | null
+  onShowLogs?: (scenarioId: string) => void
 }) {
   const [isExpanded, setIsExpanded] = useState(defaultExpanded)
 
@@ -73,6 +162,7 @@ const FileGroup = memo(function FileGroup({
   const hasFailures = failedCount > 0
   const allPassed = passedCount === totalCount
   const isRunning = runningCount > 0
+  const selectedCount = selectedIds ? scenarios.filter(s => selectedIds.has(s.id)).length : 0
 
   const headerBg = hasFailures
     ? 'bg-red-500/20 border-l-red-400'
@@ -84,45 +174,67 @@ const FileGroup = memo(function FileGroup({
 
   return (
     <div className="mb-2">
-      <button
-        onClick={() => setIsExpanded(!isExpanded)}
-        className={cn(
-          'w-full flex items-center gap-2 px-2 py-1.5 rounded text-xs font-medium transition-colors border-l-2',
-          headerBg
+      <div className="flex items-center gap-1">
+        {onToggle && (
+          <input
+            type="checkbox"
+            checked={selectedCount > 0 && selectedCount === totalCount}
+            ref={(el) => {
+              if (el) el.indeterminate = selectedCount > 0 && selectedCount < totalCount
+            }}
+            onChange={() => onToggle(scenarios.map(s => s.id))}
+            className="w-3 h-3 flex-shrink-0 accent-brand cursor-pointer"
+            title="Select all tests in this file"
+          />
         )}
-      >
-        {isExpanded ? (
-          <ChevronDown className="w-3 h-3 text-gray-400" />
-        ) : (
-          <ChevronRight className="w-3 h-3 text-gray-400" />
-        )}
-        <span className="text-gray-300 truncate flex-1 text-left">{file}</span>
-        <div className="flex items-center gap-1.5 flex-shrink-0">
-          {passedCount > 0 && (
-            <span className="flex items-center gap-0.5 text-emerald-400">
-              <Check className="w-3 h-3" />
-              {passedCount}
-            </span>
-          )}
-          {failedCount > 0 && (
-            <span className="flex items-center gap-0.5 text-red-400">
-              <X className="w-3 h-3" />
-              {failedCount}
-            </span>
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className={cn(
+            'flex-1 min-w-0 flex items-center gap-2 px-2 py-1.5 rounded text-xs font-medium transition-colors border-l-2',
+            headerBg
           )}
-          {runningCount > 0 && (
-            <span className="flex items-center gap-0.5 text-blue-400">
-              <Loader2 className="w-3 h-3 animate-spin" />
-              {runningCount}
-            </span>
+        >
+          {isExpanded ? (
+            <ChevronDown className="w-3 h-3 text-gray-400" />
+          ) : (
+            <ChevronRight className="w-3 h-3 text-gray-400" />
           )}
-          <span className="text-gray-500">/{totalCount}</span>
-        </div>
-      </button>
+          <span className="text-gray-300 truncate flex-1 text-left">{file}</span>
+          <div className="flex items-center gap-1.5 flex-shrink-0">
+            {passedCount > 0 && (
+              <span className="flex items-center gap-0.5 text-emerald-400">
+                <Check className="w-3 h-3" />
+                {passedCount}
+              </span>
+            )}
+            {failedCount > 0 && (
+              <span className="flex items-center gap-0.5 text-red-400">
+                <X className="w-3 h-3" />
+                {failedCount}
+              </span>
+            )}
+            {runningCount > 0 && (
+              <span className="flex items-center gap-0.5 text-blue-400">
+                <Loader2 className="w-3 h-3 animate-spin" />
+                {runningCount}
+              </span>
+            )}
+            <span className="text-gray-500">/{totalCount}</span>
+          </div>
+        </button>
+      </div>
       {isExpanded && (
         <div className="ml-3 mt-1 space-y-0.5">
           {scenarios.map(scenario => (
-            <ScenarioRow key={scenario.id} scenario={scenario} />
+            <ScenarioRow
+              key={scenario.id}
+              scenario={scenario}
+              selected={selectedIds?.has(scenario.id)}
+              onToggle={onToggle}
+              trend={trends?.get(scenario.id)}
+              isShowingLogs={scenario.id === logScenarioId}
+              onShowLogs={onShowLogs}
+            />
           ))}
         </div>
       )}
@@ -130,6 +242,24 @@ const FileGroup = memo(function FileGroup({
   )
 })
 
+function stripE2eDir(path: string): string {
+  return path.replace(/^e2e\//, '')
+}
+
+/**
+ * Whether a run with this selection includes the test. Playwright matches
+ * --grep against the file and titles, so this does too.
+ */
+function isInSelection(test: Pick<TestScenario, 'id' | 'name' | 'file' | 'suite'>, selection: TestSelection): boolean {
+  if (selection.testIds && !selection.testIds.some(id => stripE2eDir(id) === test.id)) return false
+  if (selection.files && !selection.files.some(file => stripE2eDir(file) === test.file)) return false
+
+  const title = [test.file, test.suite, test.name].filter(Boolean).join(' ')
+  if (selection.grep && !new RegExp(selection.grep).test(title)) return false
+  if (selection.grepInvert && new RegExp(selection.grepInvert).test(title)) return false
+  return true
+}
+
 function groupByFile<T extends { file: string }>(items: T[]): Map<string, T[]> {
   const groups = new Map<string, T[]>()
   for (const item of items) {
@@ -145,8 +275,23 @@ export function TestScenarioList({ className }: TestScenarioListProps) {
   const scenarios = useScenarios()
   const activeRunId = useActiveRunId()
   const selectedCategory = useSelectedCategory()
+  const selectedTestIds = useSelectedTestIds()
+  const logScenarioId = useLogScenarioId()
+  const { toggleTestSelection, clearTestSelection, setLogScenario } = useE2EDashboardStore()
 
-  const { data: testListData, isLoading: isLoadingTests } = useTestList(selectedCategory)
+  // The active run may have been started elsewhere (a schedule, a re-run of
+  // failures, another tab), so its own category and selection decide what it runs
+  const { data: activeRun } = useTestStatus(activeRunId)
+  const runSelection: TestSelection | undefined = activeRunId ? activeRun?.selection : undefined
+  const { data: testListData, isLoading: isLoadingTests } = useTestList(
+    activeRunId && activeRun ? activeRun.category : selectedCategory
+  )
+  const { data: durationData } = useDurationTrends()
+
+  const trendMap = useMemo(
+    () => new Map((durationData?.trends ?? []).map(trend => [trend.scenarioId, trend])),
+    [durationData]
+  )
 
   const hasActiveRun = !!activeRunId
 
@@ -158,10 +303,23 @@ export function TestScenarioList({ className }: TestScenarioListProps) {
     return map
   }, [scenarios])
 
+  const selectedIdSet = useMemo(() => new Set(selectedTestIds), [selectedTestIds])
+
+  // Clicking the scenario whose output is shown goes back to all output
+  const toggleLogScenario = useCallback(
+    (scenarioId: string) => setLogScenario(scenarioId === logScenarioId ? null : scenarioId),
+    [logScenarioId, setLogScenario]
+  )
+
   const mergedScenarios = useMemo(() => {
     if (!testListData?.tests) return []
 
-    return testListData.tests.map((item): TestScenario => {
+    // A run limited to a selection only shows the selected tests
+    const tests = runSelection
+      ? testListData.tests.filter(item => isInSelection(item, runSelection))
+      : testListData.tests
+
+    return tests.map((item): TestScenario => {
       const realScenario = scenarioMap.get(item.id)
       if (realScenario) {
         return realScenario
@@ -174,7 +332,7 @@ export function TestScenarioList({ className }: TestScenarioListProps) {
         status: 'pending' as TestScenarioStatus,
       }
     })
-  }, [testListData?.tests, scenarioMap])
+  }, [testListData?.tests, scenarioMap, runSelection])
 
   const groupedMerged = useMemo(() => groupByFile(mergedScenarios), [mergedScenarios])
 
@@ -247,7 +405,14 @@ export function TestScenarioList({ className }: TestScenarioListProps) {
         </div>
         <div className="flex-1 overflow-y-auto p-2 min-h-0 max-h-full">
           {Array.from(groupedMerged.entries()).map(([file, fileScenarios]) => (
-            <FileGroup key={file} file={file} scenarios={fileScenarios} />
+            <FileGroup
+              key={file}
+              file={file}
+              scenarios={fileScenarios}
+              trends={trendMap}
+              logScenarioId={logScenarioId}
+              onShowLogs={toggleLogScenario}
+            />
           ))}
         </div>
       </div>
@@ -259,14 +424,33 @@ export function TestScenarioList({ className }: TestScenarioListProps) {
       <div className="px-3 py-2 border-b border-gray-700 flex-shrink-0">
         <div className="flex items-center justify-between">
           <span className="text-sm font-medium text-gray-300">Scenarios</span>
-          <span className="text-xs text-gray-500 bg-gray-700 px-1.5 py-0.5 rounded">
-            {testListData.total} tests
-          </span>
+          <div className="flex items-center gap-2 text-xs">
+            {selectedTestIds.length > 0 && (
+              <button
+                onClick={clearTestSelection}
+                className="text-brand hover:text-white transition-colors"
+                title="Clear selection"
+              >
+                {selectedTestIds.length} selected ×
+              </button>
+            )}
+            <span className="text-gray-500 bg-gray-700 px-1.5 py-0.5 rounded">
+              {testListData.total} tests
+            </span>
+          </div>
         </div>
       </div>
       <div className="flex-1 overflow-y-auto p-2 min-h-0 max-h-full">
         {Array.from(groupedMerged.entries()).map(([file, fileScenarios], index) => (
-          <FileGroup key={file} file={file} scenarios={fileScenarios} defaultExpanded={index < 2} />
+          <FileGroup
+            key={file}
+            file={file}
+            scenarios={fileScenarios}
+            defaultExpanded={index < 2}
+            selectedIds={selectedIdSet}
+            onToggle={toggleTestSelection}
+            trends={trendMap}
+          />
         ))}
       </div>
     </div>
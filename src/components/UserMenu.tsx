@@ -0,0 +1,46 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { LogOut, User } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { useAuthSession } from '@/hooks/queries'
+import { useLogout } from '@/hooks/mutations'
+
+interface UserMenuProps {
+  className?: string
+}
+
+export function UserMenu({ className }: UserMenuProps) {
+  const router = useRouter()
+  const { data } = useAuthSession()
+  const { mutate: logout, isPending } = useLogout()
+
+  // Nothing to show when auth is off
+  if (!data?.authEnabled || !data.user) return null
+
+  const handleLogout = () => {
+    logout(undefined, {
+      onSuccess: () => router.replace('/login'),
+    })
+  }
+
+  return (
+    <div className={cn('flex items-center gap-1', className)}>
+      <span className="flex items-center gap-1 px-2 text-sm text-gray-300" title={`Signed in as ${data.user.name}`}>
+        <User className="w-4 h-4 text-gray-400" />
+        {data.user.name}
+        <span className="px-1.5 py-0.5 text-[10px] font-medium bg-gray-700 text-gray-300 rounded">
+          {data.user.role}
+        </span>
+      </span>
+      <button
+        onClick={handleLogout}
+        disabled={isPending}
+        className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-gray-700 transition-colors disabled:opacity-50"
+        title="Sign out"
+      >
+        <LogOut className="w-4 h-4" />
+      </button>
+    </div>
+  )
+}
@@ -1,3 +1,13 @@
 export { TerminalViewer } from './TerminalViewer'
 export { TestScenarioList } from './TestScenarioList'
 export { TestReport } from './TestReport'
+export { RunQueue } from './RunQueue'
+export { RunHistoryMenu } from './RunHistoryMenu'
+export { RunHistoryTable } from './RunHistoryTable'
+export { FlakyTestsPanel } from './FlakyTestsPanel'
+export { RunComparison } from './RunComparison'
+export { EnvironmentPicker } from './EnvironmentPicker'
+export { ScheduleForm } from './ScheduleForm'
+export { ScheduleList } from './ScheduleList'
+export { UserMenu } from './UserMenu'
+export { SourceViewer } from './SourceViewer'
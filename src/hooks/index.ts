@@ -1,3 +1,3 @@
-export { useStartTest, useCancelTest, useResetTests } from './mutations'
-export { useTestHistory, useTestStatus, useTestList, e2eQueries } from './queries'
-export { useSSEStream } from './use-sse-stream'
+export { useStartTest, useRerunFailed, useCancelTest, useResetTests } from './mutations'
+export { useTestHistory, useTestStatus, useTestList, useRunQueue, e2eQueries } from './queries'
+export { useRunEvents } from './use-run-events'
@@ -1,11 +1,8 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query'
-import type { TestCategory, TestConfig, TestRunResponse } from '../types'
+import type { AuthSessionResponse, ScheduleInput, TestRunRequest, TestRunResponse, TestSchedule } from '../types'
 import { useE2EDashboardStore } from '../store/e2e-store'
 
-interface StartTestParams {
-  category: TestCategory
-  config: TestConfig
-}
+type StartTestParams = TestRunRequest
 
 async function startTestRun(params: StartTestParams): Promise<TestRunResponse> {
   const response = await fetch('/api/e2e/run', {
@@ -24,6 +21,19 @@ async function startTestRun(params: StartTestParams): Promise<TestRunResponse> {
   return response.json()
 }
 
+async function rerunFailedTests(runId: string): Promise<TestRunResponse> {
+  const response = await fetch(`/api/e2e/run/${runId}/rerun-failed`, {
+    method: 'POST',
+  })
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to re-run failed tests')
+  }
+
+  return response.json()
+}
+
 async function cancelTestRun(runId: string): Promise<{ success: boolean; status: string }> {
   const response = await fetch(`/api/e2e/cancel/${runId}`, {
     method: 'POST',
@@ -50,32 +60,131 @@ async function resetTestRuns(): Promise<{ success: boolean; cleared: boolean; cl
   return response.json()
 }
 
+async function createSchedule(input: ScheduleInput): Promise<TestSchedule> {
+  const response = await fetch('/api/e2e/schedules', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(input),
+  })
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to create schedule')
+  }
+
+  return response.json()
+}
+
+async function updateSchedule({ id, ...changes }: Partial<ScheduleInput> & { id: string }): Promise<TestSchedule> {
+  const response = await fetch(`/api/e2e/schedules/${id}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(changes),
+  })
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to update schedule')
+  }
+
+  return response.json()
+}
+
+async function deleteSchedule(id: string): Promise<{ success: boolean }> {
+  const response = await fetch(`/api/e2e/schedules/${id}`, {
+    method: 'DELETE',
+  })
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to delete schedule')
+  }
+
+  return response.json()
+}
+
+async function login(credentials: { username: string; password: string }): Promise<AuthSessionResponse> {
+  const response = await fetch('/api/e2e/auth/login', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(credentials),
+  })
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to sign in')
+  }
+
+  return response.json()
+}
+
+async function logout(): Promise<{ success: boolean }> {
+  const response = await fetch('/api/e2e/auth/logout', {
+    method: 'POST',
+  })
+
+  if (!response.ok) {
+    throw new Error('Failed to sign out')
+  }
+
+  return response.json()
+}
+
 export function useStartTest() {
   const queryClient = useQueryClient()
-  const { startRun, selectedCategory, selectedConfig } = useE2EDashboardStore()
+  const { startRun, selectedCategory, selectedConfig, selectedTestIds, selectedShards } = useE2EDashboardStore()
 
   return useMutation({
     mutationFn: (params?: Partial<StartTestParams>) =>
       startTestRun({
+        ...params,
         category: params?.category || selectedCategory,
         config: params?.config || selectedConfig,
+        testIds: params?.testIds ?? (selectedTestIds.length > 0 ? selectedTestIds : undefined),
+        shards: params?.shards ?? (selectedShards > 1 ? selectedShards : undefined),
       }),
     onSuccess: (data) => {
-      startRun(data.runId)
+      startRun(data.runId, data.queuePosition ?? null)
       queryClient.invalidateQueries({ queryKey: ['e2e', 'history'] })
+      queryClient.invalidateQueries({ queryKey: ['e2e', 'queue'] })
+    },
+  })
+}
+
+export function useRerunFailed() {
+  const queryClient = useQueryClient()
+  const { startRun, setTestSelection, scenarios } = useE2EDashboardStore()
+
+  return useMutation({
+    mutationFn: rerunFailedTests,
+    onSuccess: (data) => {
+      const failedIds = scenarios.filter(s => s.status === 'failed').map(s => s.id)
+      startRun(data.runId, data.queuePosition ?? null)
+      setTestSelection(failedIds)
+      queryClient.invalidateQueries({ queryKey: ['e2e', 'history'] })
+      queryClient.invalidateQueries({ queryKey: ['e2e', 'queue'] })
     },
   })
 }
 
 export function useCancelTest() {
   const queryClient = useQueryClient()
-  const { setStatus } = useE2EDashboardStore()
+  const { setStatus, activeRunId } = useE2EDashboardStore()
 
   return useMutation({
     mutationFn: cancelTestRun,
-    onSuccess: () => {
-      setStatus('cancelled')
+    onSuccess: (_, runId) => {
+      if (runId === activeRunId) {
+        setStatus('cancelled')
+      }
       queryClient.invalidateQueries({ queryKey: ['e2e', 'history'] })
+      queryClient.invalidateQueries({ queryKey: ['e2e', 'queue'] })
     },
   })
 }
@@ -92,3 +201,59 @@ export function useResetTests() {
     },
   })
 }
+
+export function useCreateSchedule() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: createSchedule,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['e2e', 'schedules'] })
+    },
+  })
+}
+
+export function useUpdateSchedule() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: updateSchedule,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['e2e', 'schedules'] })
+    },
+  })
+}
+
+export function useDeleteSchedule() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: deleteSchedule,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['e2e', 'schedules'] })
+    },
+  })
+}
+
+export function useLogin() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: login,
+    onSuccess: (data) => {
+      queryClient.setQueryData(['e2e', 'session'], data)
+    },
+  })
+}
+
+export function useLogout() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: logout,
+    onSuccess: () => {
+      // Everything cached belonged to the signed-out user
+      queryClient.clear()
+    },
+  })
+}
@@ -1,5 +1,5 @@
-import { queryOptions, useQuery } from '@tanstack/react-query'
-import type { TestRunSummary, TestCategory } from '../types'
+import { keepPreviousData, queryOptions, useQuery } from '@tanstack/react-query'
+import type { TestCategory, RunQueueResponse, TestHistoryQuery, TestHistoryResponse, FlakyTestsResponse, DurationTrendsResponse, RunComparisonResponse, EnvironmentsResponse, EnvironmentHealth, SchedulesResponse, AuthSessionResponse, RunLogsQuery, RunLogsResponse, SourceSnippet } from '../types'
 
 interface TestInfo {
   id: string
@@ -16,13 +16,29 @@ interface TestListResponse {
 
 const E2E_QUERY_KEYS = {
   all: ['e2e'] as const,
-  history: () => [...E2E_QUERY_KEYS.all, 'history'] as const,
+  history: (query: TestHistoryQuery = {}) => [...E2E_QUERY_KEYS.all, 'history', query] as const,
   status: (runId: string) => [...E2E_QUERY_KEYS.all, 'status', runId] as const,
   tests: (category: TestCategory) => [...E2E_QUERY_KEYS.all, 'tests', category] as const,
+  queue: () => [...E2E_QUERY_KEYS.all, 'queue'] as const,
+  flaky: (runs: number) => [...E2E_QUERY_KEYS.all, 'flaky', runs] as const,
+  durations: () => [...E2E_QUERY_KEYS.all, 'durations'] as const,
+  compare: (base: string, head: string) => [...E2E_QUERY_KEYS.all, 'compare', base, head] as const,
+  environments: () => [...E2E_QUERY_KEYS.all, 'environments'] as const,
+  environmentHealth: (name: string) => [...E2E_QUERY_KEYS.all, 'environments', name, 'health'] as const,
+  schedules: () => [...E2E_QUERY_KEYS.all, 'schedules'] as const,
+  session: () => [...E2E_QUERY_KEYS.all, 'session'] as const,
+  runLogs: (runId: string, query: RunLogsQuery) => [...E2E_QUERY_KEYS.all, 'logs', runId, query] as const,
+  source: (file: string, line: number) => [...E2E_QUERY_KEYS.all, 'source', file, line] as const,
 }
 
-async function fetchHistory(limit = 20): Promise<TestRunSummary[]> {
-  const response = await fetch(`/api/e2e/history?limit=${limit}`)
+async function fetchHistory(query: TestHistoryQuery): Promise<TestHistoryResponse> {
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== '') {
+      params.set(key, String(value))
+    }
+  }
+  const response = await fetch(`/api/e2e/history?${params}`)
   if (!response.ok) {
     throw new Error('Failed to fetch history')
   }
@@ -45,12 +61,102 @@ async function fetchTests(category: TestCategory): Promise<TestListResponse> {
   return response.json()
 }
 
+async function fetchQueue(): Promise<RunQueueResponse> {
+  const response = await fetch('/api/e2e/queue')
+  if (!response.ok) {
+    throw new Error('Failed to fetch queue')
+  }
+  return response.json()
+}
+
+async function fetchFlakyTests(runs: number): Promise<FlakyTestsResponse> {
+  const response = await fetch(`/api/e2e/flaky?runs=${runs}`)
+  if (!response.ok) {
+    throw new Error('Failed to fetch flaky tests')
+  }
+  return response.json()
+}
+
+async function fetchDurationTrends(): Promise<DurationTrendsResponse> {
+  const response = await fetch('/api/e2e/durations')
+  if (!response.ok) {
+    throw new Error('Failed to fetch duration trends')
+  }
+  return response.json()
+}
+
+async function fetchComparison(base: string, head: string): Promise<RunComparisonResponse> {
+  const params = new URLSearchParams({ base, head })
+  const response = await fetch(`/api/e2e/compare?${params}`)
+  if (!response.ok) {
+    throw new Error('Failed to compare runs')
+  }
+  return response.json()
+}
+
+async function fetchEnvironments(): Promise<EnvironmentsResponse> {
+  const response = await fetch('/api/e2e/environments')
+  if (!response.ok) {
+    throw new Error('Failed to fetch environments')
+  }
+  return response.json()
+}
+
+async function fetchEnvironmentHealth(name: string): Promise<EnvironmentHealth> {
+  const response = await fetch(`/api/e2e/environments/${encodeURIComponent(name)}/health`)
+  if (!response.ok) {
+    throw new Error('Failed to check environment health')
+  }
+  return response.json()
+}
+
+async function fetchSchedules(): Promise<SchedulesResponse> {
+  const response = await fetch('/api/e2e/schedules')
+  if (!response.ok) {
+    throw new Error('Failed to fetch schedules')
+  }
+  return response.json()
+}
+
+async function fetchSession(): Promise<AuthSessionResponse> {
+  const response = await fetch('/api/e2e/auth/session')
+  if (!response.ok) {
+    throw new Error('Failed to fetch session')
+  }
+  return response.json()
+}
+
+async function fetchRunLogs(runId: string, query: RunLogsQuery): Promise<RunLogsResponse> {
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0)) {
+      params.set(key, String(value))
+    }
+  }
+  const response = await fetch(`/api/e2e/runs/${runId}/logs?${params}`)
+  if (!response.ok) {
+    throw new Error('Failed to fetch logs')
+  }
+  return response.json()
+}
+
+async function fetchSource(file: string, line: number): Promise<SourceSnippet> {
+  const params = new URLSearchParams({ file, line: String(line) })
+  const response = await fetch(`/api/e2e/source?${params}`)
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to fetch source')
+  }
+  return response.json()
+}
+
 export const e2eQueries = {
-  history: (limit = 20) =>
+  history: (query: TestHistoryQuery = {}) =>
     queryOptions({
-      queryKey: E2E_QUERY_KEYS.history(),
-      queryFn: () => fetchHistory(limit),
+      queryKey: E2E_QUERY_KEYS.history(query),
+      queryFn: () => fetchHistory(query),
       staleTime: 30 * 1000,
+      placeholderData: keepPreviousData,
     }),
 
   status: (runId: string) =>
@@ -73,10 +179,84 @@ export const e2eQueries = {
       queryFn: () => fetchTests(category),
       staleTime: 5 * 60 * 1000,
     }),
+
+  queue: () =>
+    queryOptions({
+      queryKey: E2E_QUERY_KEYS.queue(),
+      queryFn: fetchQueue,
+      // Fallback; useRunEvents refetches it whenever a run is queued or changes status
+      refetchInterval: 15000,
+    }),
+
+  flaky: (runs = 50) =>
+    queryOptions({
+      queryKey: E2E_QUERY_KEYS.flaky(runs),
+      queryFn: () => fetchFlakyTests(runs),
+      staleTime: 60 * 1000,
+    }),
+
+  durations: () =>
+    queryOptions({
+      queryKey: E2E_QUERY_KEYS.durations(),
+      queryFn: fetchDurationTrends,
+      staleTime: 60 * 1000,
+    }),
+
+  compare: (base: string, head: string) =>
+    queryOptions({
+      queryKey: E2E_QUERY_KEYS.compare(base, head),
+      queryFn: () => fetchComparison(base, head),
+      enabled: !!base && !!head,
+    }),
+
+  environments: () =>
+    queryOptions({
+      queryKey: E2E_QUERY_KEYS.environments(),
+      queryFn: fetchEnvironments,
+      staleTime: 5 * 60 * 1000,
+    }),
+
+  environmentHealth: (name: string) =>
+    queryOptions({
+      queryKey: E2E_QUERY_KEYS.environmentHealth(name),
+      queryFn: () => fetchEnvironmentHealth(name),
+      enabled: !!name,
+      refetchInterval: 60 * 1000,
+    }),
+
+  schedules: () =>
+    queryOptions({
+      queryKey: E2E_QUERY_KEYS.schedules(),
+      queryFn: fetchSchedules,
+      refetchInterval: 30 * 1000,
+    }),
+
+  session: () =>
+    queryOptions({
+      queryKey: E2E_QUERY_KEYS.session(),
+      queryFn: fetchSession,
+      staleTime: 5 * 60 * 1000,
+    }),
+
+  runLogs: (runId: string, query: RunLogsQuery) =>
+    queryOptions({
+      queryKey: E2E_QUERY_KEYS.runLogs(runId, query),
+      queryFn: () => fetchRunLogs(runId, query),
+      enabled: !!runId,
+    }),
+
+  source: (file: string, line: number) =>
+    queryOptions({
+      queryKey: E2E_QUERY_KEYS.source(file, line),
+      queryFn: () => fetchSource(file, line),
+      enabled: !!file,
+      staleTime: 60 * 1000,
+      retry: false,
+    }),
 }
 
-export function useTestHistory(limit = 20) {
-  return useQuery(e2eQueries.history(limit))
+export function useTestHistory(query: TestHistoryQuery = {}) {
+  return useQuery(e2eQueries.history(query))
 }
 
 export function useTestStatus(runId: string | null) {
@@ -89,3 +269,47 @@ export function useTestStatus(runId: string | null) {
 export function useTestList(category: TestCategory) {
   return useQuery(e2eQueries.tests(category))
 }
+
+export function useRunQueue() {
+  return useQuery(e2eQueries.queue())
+}
+
+export function useFlakyTests(runs = 50) {
+  return useQuery(e2eQueries.flaky(runs))
+}
+
+export function useDurationTrends() {
+  return useQuery(e2eQueries.durations())
+}
+
+export function useRunComparison(base: string | null, head: string | null) {
+  return useQuery(e2eQueries.compare(base || '', head || ''))
+}
+
+export function useEnvironments() {
+  return useQuery(e2eQueries.environments())
+}
+
+export function useEnvironmentHealth(name: string) {
+  return useQuery(e2eQueries.environmentHealth(name))
+}
+
+export function useSchedules() {
+  return useQuery(e2eQueries.schedules())
+}
+
+export function useAuthSession() {
+  return useQuery(e2eQueries.session())
+}
+
+export function useRunLogs(runId: string | null, query: RunLogsQuery, enabled = true) {
+  return useQuery({
+    ...e2eQueries.runLogs(runId || '', query),
+    enabled: !!runId && enabled,
+    placeholderData: keepPreviousData,
+  })
+}
+
+export function useSourceSnippet(file: string | null, line: number) {
+  return useQuery(e2eQueries.source(file || '', line))
+}
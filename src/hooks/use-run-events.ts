@@ -0,0 +1,196 @@
+import { useEffect, useRef, useCallback } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import { useE2EDashboardStore, useE2EDashboardStoreApi } from '../store/e2e-store'
+import type { LogEntry, RunEventMessage, RunEventName, TestProgress, TestResult, TestScenario, TestStatus } from '../types'
+
+interface UseRunEventsOptions {
+  // Run whose logs and progress go into the dashboard store
+  runId: string | null
+  enabled?: boolean
+}
+
+const LOG_BATCH_SIZE = 50
+const LOG_BATCH_INTERVAL = 100
+const MAX_RECONNECT_DELAY = 30000
+
+// Events of other runs that change the queue and history
+const LIFECYCLE_EVENTS: RunEventName[] = ['created', 'status', 'queue']
+
+/**
+ * Follow the multiplexed /api/e2e/events stream: every event of `runId`
+ * plus lifecycle events of all runs, which refresh the queue and history.
+ */
+export function useRunEvents({ runId, enabled = true }: UseRunEventsOptions) {
+  const queryClient = useQueryClient()
+  const eventSourceRef = useRef<EventSource | null>(null)
+  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+  const reconnectAttempts = useRef(0)
+  // Latest event id of `runId`, sent back when reconnecting so the server
+  // only replays what was missed
+  const lastEventIdRef = useRef(0)
+
+  const logBufferRef = useRef<LogEntry[]>([])
+  const flushTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+
+  const store = useE2EDashboardStoreApi()
+  const {
+    addLogs,
+    setProgress,
+    setResults,
+    setStatus,
+    setQueuePosition,
+    setConnected,
+    updateScenario,
+  } = useE2EDashboardStore()
+
+  const flushLogs = useCallback(() => {
+    if (logBufferRef.current.length > 0) {
+      addLogs(logBufferRef.current)
+      logBufferRef.current = []
+    }
+    if (flushTimeoutRef.current) {
+      clearTimeout(flushTimeoutRef.current)
+      flushTimeoutRef.current = null
+    }
+  }, [addLogs])
+
+  const bufferLog = useCallback((log: LogEntry) => {
+    logBufferRef.current.push(log)
+
+    if (logBufferRef.current.length >= LOG_BATCH_SIZE) {
+      flushLogs()
+      return
+    }
+
+    if (!flushTimeoutRef.current) {
+      flushTimeoutRef.current = setTimeout(flushLogs, LOG_BATCH_INTERVAL)
+    }
+  }, [flushLogs])
+
+  const invalidateRunLists = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: ['e2e', 'queue'] })
+    queryClient.invalidateQueries({ queryKey: ['e2e', 'history'] })
+  }, [queryClient])
+
+  const connect = useCallback(() => {
+    if (!enabled) return
+
+    if (eventSourceRef.current) {
+      eventSourceRef.current.close()
+    }
+
+    const params = new URLSearchParams({ events: LIFECYCLE_EVENTS.join(',') })
+    if (runId) {
+      params.set('runIds', runId)
+      params.set('since', `${runId}:${lastEventIdRef.current}`)
+    }
+    const eventSource = new EventSource(`/api/e2e/events?${params}`)
+    eventSourceRef.current = eventSource
+
+    // Parse a message and track its id; returns null for other runs' events
+    // and for logs already received
+    const readActiveRun = <T,>(event: MessageEvent, name: RunEventName): T | null => {
+      const message: RunEventMessage<T> = JSON.parse(event.data)
+      if (message.runId !== runId) return null
+      if (name === 'log' && message.seq <= lastEventIdRef.current) return null
+      lastEventIdRef.current = Math.max(lastEventIdRef.current, message.seq)
+      return message.data
+    }
+
+    const listen = <T,>(name: RunEventName, handler: (data: T) => void) => {
+      eventSource.addEventListener(name, (event) => {
+        try {
+          const data = readActiveRun<T>(event, name)
+          if (data !== null) handler(data)
+        } catch (e) {
+          console.error(`Failed to parse ${name} event:`, e)
+        }
+      })
+    }
+
+    eventSource.onopen = () => {
+      setConnected(true)
+      reconnectAttempts.current = 0
+    }
+
+    eventSource.onerror = () => {
+      setConnected(false)
+      flushLogs()
+
+      // Reconnect ourselves, with backoff, rather than let EventSource retry
+      eventSource.close()
+      reconnectAttempts.current++
+      const delay = Math.min(1000 * Math.pow(2, reconnectAttempts.current), MAX_RECONNECT_DELAY)
+      reconnectTimeoutRef.current = setTimeout(() => {
+        connect()
+      }, delay)
+    }
+
+    listen<LogEntry>('log', bufferLog)
+    listen<TestProgress>('progress', setProgress)
+    listen<TestScenario>('scenario', updateScenario)
+
+    listen<TestResult>('complete', (results) => {
+      setResults(results)
+      flushLogs()
+    })
+
+    listen<{ position: number }>('queue', ({ position }) => setQueuePosition(position))
+
+    // Every (re)connect replays the current status, so a move from queued to
+    // running or to finished that happened while disconnected isn't lost
+    listen<{ status: TestStatus }>('status', ({ status }) => {
+      setStatus(status)
+      if (['completed', 'failed', 'cancelled'].includes(status)) {
+        flushLogs()
+      }
+    })
+
+    for (const name of LIFECYCLE_EVENTS) {
+      eventSource.addEventListener(name, invalidateRunLists)
+    }
+  }, [runId, enabled, bufferLog, flushLogs, invalidateRunLists, setProgress, setResults, setStatus, setQueuePosition, setConnected, updateScenario])
+
+  useEffect(() => {
+    // Logs already in the store don't need to be sent again
+    const state = store.getState()
+    lastEventIdRef.current = runId && state.activeRunId === runId ? state.lastLogSeq : 0
+    reconnectAttempts.current = 0
+
+    if (enabled) {
+      connect()
+    }
+
+    return () => {
+      if (logBufferRef.current.length > 0) {
+        addLogs(logBufferRef.current)
+        logBufferRef.current = []
+      }
+
+      if (eventSourceRef.current) {
+        eventSourceRef.current.close()
+        eventSourceRef.current = null
+      }
+      if (reconnectTimeoutRef.current) {
+        clearTimeout(reconnectTimeoutRef.current)
+        reconnectTimeoutRef.current = null
+      }
+      if (flushTimeoutRef.current) {
+        clearTimeout(flushTimeoutRef.current)
+        flushTimeoutRef.current = null
+      }
+      setConnected(false)
+    }
+  }, [runId, enabled, store, connect, setConnected, addLogs])
+
+  const disconnect = useCallback(() => {
+    flushLogs()
+    if (eventSourceRef.current) {
+      eventSourceRef.current.close()
+      eventSourceRef.current = null
+    }
+    setConnected(false)
+  }, [flushLogs, setConnected])
+
+  return { disconnect }
+}
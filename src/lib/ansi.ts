@@ -0,0 +1,152 @@
+import type { CSSProperties } from 'react'
+
+export interface AnsiStyle {
+  color?: string
+  backgroundColor?: string
+  bold?: boolean
+  dim?: boolean
+  italic?: boolean
+  underline?: boolean
+  inverse?: boolean
+  strikethrough?: boolean
+}
+
+export interface AnsiSegment {
+  text: string
+  style: AnsiStyle
+}
+
+// The 16 basic colors: 30-37 / 40-47, then the bright 90-97 / 100-107
+const BASIC_COLORS = [
+  '#2e2e2e', '#ff5f57', '#28c941', '#febc2e', '#28c0de', '#d88fd8', '#19bbd2', '#dcdfe4',
+  '#6d7681', '#ff8785', '#56d364', '#e3b341', '#58a6ff', '#bc8cff', '#39c5cf', '#ffffff',
+]
+const CUBE_LEVELS = [0, 95, 135, 175, 215, 255]
+
+// Used to swap colors for inverse text that doesn't set its own
+const DEFAULT_FOREGROUND = '#dcdfe4'
+const DEFAULT_BACKGROUND = '#18181b'
+
+// Any CSI sequence; only SGR ("m") changes the style, the rest (cursor
+// movement, line clearing) have no meaning in a log and are dropped
+const CSI_PATTERN = /\u001b\[([0-9;:]*)([@-~])/g
+
+export function stripAnsi(text: string): string {
+  return text.replace(CSI_PATTERN, '')
+}
+
+function toHex(value: number): string {
+  return Math.max(0, Math.min(255, value)).toString(16).padStart(2, '0')
+}
+
+function get256Color(index: number): string | undefined {
+  if (index < 16) return BASIC_COLORS[index]
+  if (index < 232) {
+    const cube = index - 16
+    const levels = [Math.floor(cube / 36), Math.floor(cube / 6) % 6, cube % 6].map(level => CUBE_LEVELS[level])
+    return `#${levels.map(toHex).join('')}`
+  }
+  if (index < 256) {
+    const gray = 8 + (index - 232) * 10
+    return `#${toHex(gray).repeat(3)}`
+  }
+  return undefined
+}
+
+/**
+ * Read an extended color (38/48) starting at codes[i], which is 5 for a
+ * 256-color index or 2 for RGB. Returns the color, or undefined for a
+ * truncated or unknown one, and how many codes it used.
+ */
+function readExtendedColor(codes: number[], i: number): [string | undefined, number] {
+  if (codes[i] === 5) {
+    const index = codes[i + 1]
+    return [index === undefined ? undefined : get256Color(index), 2]
+  }
+  if (codes[i] === 2) {
+    const components = codes.slice(i + 1, i + 4)
+    if (components.length < 3) return [undefined, 4]
+    return [`#${components.map(toHex).join('')}`, 4]
+  }
+  return [undefined, 0]
+}
+
+function applySgr(style: AnsiStyle, params: string): AnsiStyle {
+  // ESC[m is a reset; ':' separates sub-parameters in the newer color form
+  const codes = params === '' ? [0] : params.split(/[;:]/).map(code => (code === '' ? 0 : Number(code)))
+  let next = { ...style }
+
+  for (let i = 0; i < codes.length; i++) {
+    const code = codes[i]
+    if (code === 0) next = {}
+    else if (code === 1) next.bold = true
+    else if (code === 2) next.dim = true
+    else if (code === 3) next.italic = true
+    else if (code === 4) next.underline = true
+    else if (code === 7) next.inverse = true
+    else if (code === 9) next.strikethrough = true
+    else if (code === 22) next.bold = next.dim = undefined
+    else if (code === 23) next.italic = undefined
+    else if (code === 24) next.underline = undefined
+    else if (code === 27) next.inverse = undefined
+    else if (code === 29) next.strikethrough = undefined
+    else if (code >= 30 && code <= 37) next.color = BASIC_COLORS[code - 30]
+    else if (code >= 90 && code <= 97) next.color = BASIC_COLORS[code - 90 + 8]
+    else if (code >= 40 && code <= 47) next.backgroundColor = BASIC_COLORS[code - 40]
+    else if (code >= 100 && code <= 107) next.backgroundColor = BASIC_COLORS[code - 100 + 8]
+    else if (code === 39) next.color = undefined
+    else if (code === 49) next.backgroundColor = undefined
+    else if (code === 38 || code === 48) {
+      const [color, used] = readExtendedColor(codes, i + 1)
+      // A sequence that can't be read leaves the color as it was
+      if (color && code === 38) next.color = color
+      else if (color) next.backgroundColor = color
+      i += used
+    }
+  }
+
+  return next
+}
+
+/**
+ * Split a line into runs of text with the SGR style in effect for each.
+ * Each log line is parsed on its own, so styles don't carry over between lines.
+ */
+export function parseAnsi(line: string): AnsiSegment[] {
+  const segments: AnsiSegment[] = []
+  let style: AnsiStyle = {}
+  let lastIndex = 0
+  let match: RegExpExecArray | null
+
+  CSI_PATTERN.lastIndex = 0
+  while ((match = CSI_PATTERN.exec(line)) !== null) {
+    if (match.index > lastIndex) {
+      segments.push({ text: line.slice(lastIndex, match.index), style })
+    }
+    if (match[2] === 'm') {
+      style = applySgr(style, match[1])
+    }
+    lastIndex = match.index + match[0].length
+  }
+
+  if (lastIndex < line.length) {
+    segments.push({ text: line.slice(lastIndex), style })
+  }
+  return segments
+}
+
+export function toCssProperties(style: AnsiStyle): CSSProperties {
+  const css: CSSProperties = {}
+  const color = style.inverse ? style.backgroundColor ?? DEFAULT_BACKGROUND : style.color
+  const backgroundColor = style.inverse ? style.color ?? DEFAULT_FOREGROUND : style.backgroundColor
+
+  if (color) css.color = color
+  if (backgroundColor) css.backgroundColor = backgroundColor
+  if (style.bold) css.fontWeight = 'bold'
+  if (style.dim) css.opacity = 0.7
+  if (style.italic) css.fontStyle = 'italic'
+
+  const decorations = [style.underline && 'underline', style.strikethrough && 'line-through'].filter(Boolean)
+  if (decorations.length > 0) css.textDecoration = decorations.join(' ')
+  return css
+}
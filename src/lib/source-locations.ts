@@ -0,0 +1,48 @@
+export interface SourceLocation {
+  // Path from the repo root, e.g. e2e/tests/auth/login.spec.ts
+  file: string
+  line: number
+  column?: number
+}
+
+export interface SourceLocationMatch extends SourceLocation {
+  // Where the location's text starts in the searched string, and its length
+  index: number
+  length: number
+}
+
+// file.ts:line or file.ts:line:col, as in stack frames and Playwright's test titles
+const LOCATION_PATTERN = /([\w.@/-]+\.ts):(\d+)(?::(\d+))?/g
+// Folders of e2e/; Playwright prints test paths relative to it
+const E2E_FOLDERS = ['tests/', 'pages/', 'helpers/', 'fixtures/']
+
+function toRepoPath(path: string): string | null {
+  if (path.includes('node_modules/')) return null
+
+  // Absolute paths and paths relative to the repo root
+  const inE2e = path.match(/(?:^|\/)e2e\/(.+)$/)
+  if (inE2e) return `e2e/${inE2e[1]}`
+
+  if (E2E_FOLDERS.some(folder => path.startsWith(folder))) return `e2e/${path}`
+  return null
+}
+
+/**
+ * Find locations in the test suite's specs, page objects and helpers.
+ * Frames in Playwright or Node internals are left out.
+ */
+export function findSourceLocations(text: string): SourceLocationMatch[] {
+  const matches: SourceLocationMatch[] = []
+  for (const match of text.matchAll(LOCATION_PATTERN)) {
+    const file = toRepoPath(match[1])
+    if (!file) continue
+    matches.push({
+      file,
+      line: Number(match[2]),
+      column: match[3] ? Number(match[3]) : undefined,
+      index: match.index ?? 0,
+      length: match[0].length,
+    })
+  }
+  return matches
+}
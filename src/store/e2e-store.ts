@@ -1,4 +1,5 @@
-import { create } from 'zustand'
+import { createContext, useContext } from 'react'
+import { createStore, useStore, type StoreApi } from 'zustand'
 import type {
   TestCategory,
   TestConfig,
@@ -17,16 +18,27 @@ interface E2EDashboardState {
   // Selection state
   selectedCategory: TestCategory
   selectedConfig: TestConfig
+  selectedTestIds: string[]
+  // Playwright processes per run; 1 means no sharding
+  selectedShards: number
 
   // Active run state
   activeRunId: string | null
   status: TestStatus | null
+  queuePosition: number | null
   progress: TestProgress | null
   results: TestResult | null
   logs: LogEntry[]
+  // Highest log seq received; a resumed stream may resend older logs
+  lastLogSeq: number
+  // Lines of the run's log no longer held here (trimmed or cleared);
+  // the first entry in `logs` is this index in the full log
+  droppedLogs: number
   scenarios: TestScenario[]
 
   // UI state
+  // Scenario whose output the terminal is limited to
+  logScenarioId: string | null
   autoScroll: boolean
   isConnected: boolean
   showReport: boolean
@@ -34,14 +46,20 @@ interface E2EDashboardState {
   // Actions
   setCategory: (category: TestCategory) => void
   setConfig: (config: TestConfig) => void
-  startRun: (runId: string) => void
+  toggleTestSelection: (testIds: string[]) => void
+  setTestSelection: (testIds: string[]) => void
+  clearTestSelection: () => void
+  setShards: (shards: number) => void
+  startRun: (runId: string, queuePosition?: number | null) => void
   addLog: (log: LogEntry) => void
   addLogs: (logs: LogEntry[]) => void
   setProgress: (progress: TestProgress) => void
   setResults: (results: TestResult) => void
   setStatus: (status: TestStatus) => void
+  setQueuePosition: (position: number | null) => void
   setConnected: (connected: boolean) => void
   updateScenario: (scenario: TestScenario) => void
+  setLogScenario: (scenarioId: string | null) => void
   toggleAutoScroll: () => void
   toggleReport: () => void
   clearLogs: () => void
@@ -51,101 +69,169 @@ interface E2EDashboardState {
 const initialState = {
   selectedCategory: 'all' as TestCategory,
   selectedConfig: 'staging' as TestConfig,
+  selectedTestIds: [] as string[],
+  selectedShards: 1,
   activeRunId: null as string | null,
   status: null as TestStatus | null,
+  queuePosition: null as number | null,
   progress: null as TestProgress | null,
   results: null as TestResult | null,
   logs: [] as LogEntry[],
+  lastLogSeq: 0,
+  droppedLogs: 0,
   scenarios: [] as TestScenario[],
+  logScenarioId: null as string | null,
   autoScroll: true,
   isConnected: false,
   showReport: false,
 }
 
-function trimLogs(logs: LogEntry[]): LogEntry[] {
+
+function appendLogs(state: E2EDashboardState, newLogs: LogEntry[]): Partial<E2EDashboardState> {
+  let lastLogSeq = state.lastLogSeq
+  const unseen = newLogs.filter(log => {
+    if (log.seq === undefined) return true
+    if (log.seq <= lastLogSeq) return false
+    lastLogSeq = log.seq
+    return true
+  })
+  if (unseen.length === 0) return {}
+
+  const logs = [...state.logs, ...unseen]
   if (logs.length > MAX_LOGS) {
-    return logs.slice(LOG_TRIM_AMOUNT)
+    return { logs: logs.slice(LOG_TRIM_AMOUNT), lastLogSeq, droppedLogs: state.droppedLogs + LOG_TRIM_AMOUNT }
   }
-  return logs
+  return { logs, lastLogSeq }
 }
 
-export const useE2EDashboardStore = create<E2EDashboardState>((set) => ({
-  ...initialState,
-
-  setCategory: (category) => set({ selectedCategory: category }),
-
-  setConfig: (config) => set({ selectedConfig: config }),
-
-  startRun: (runId) =>
-    set({
-      activeRunId: runId,
-      status: 'queued',
-      progress: { passed: 0, failed: 0, pending: 0, total: 0 },
-      results: null,
-      logs: [],
-      scenarios: [],
-      showReport: false,
-    }),
-
-  addLog: (log) =>
-    set((state) => ({
-      logs: trimLogs([...state.logs, log]),
-    })),
-
-  addLogs: (newLogs) =>
-    set((state) => ({
-      logs: trimLogs([...state.logs, ...newLogs]),
-    })),
-
-  setProgress: (progress) => set({ progress }),
-
-  setResults: (results) => set({ results, showReport: true }),
-
-  setStatus: (status) => set({ status }),
-
-  setConnected: (isConnected) => set({ isConnected }),
-
-  updateScenario: (scenario) =>
-    set((state) => {
-      const existingIndex = state.scenarios.findIndex(s => s.id === scenario.id)
-      if (existingIndex >= 0) {
-        const newScenarios = [...state.scenarios]
-        newScenarios[existingIndex] = scenario
-        return { scenarios: newScenarios }
-      }
-      return { scenarios: [...state.scenarios, scenario] }
-    }),
-
-  toggleAutoScroll: () =>
-    set((state) => ({ autoScroll: !state.autoScroll })),
-
-  toggleReport: () =>
-    set((state) => ({ showReport: !state.showReport })),
-
-  clearLogs: () => set({ logs: [] }),
-
-  reset: () =>
-    set({
-      activeRunId: null,
-      status: null,
-      progress: null,
-      results: null,
-      logs: [],
-      scenarios: [],
-      isConnected: false,
-      showReport: false,
-    }),
-}))
+export function createE2EDashboardStore(): StoreApi<E2EDashboardState> {
+  return createStore<E2EDashboardState>()((set) => ({
+    ...initialState,
+
+    setCategory: (category) => set({ selectedCategory: category, selectedTestIds: [] }),
+
+    setConfig: (config) => set({ selectedConfig: config }),
+
+    // Selects the given tests, or deselects them if all are already selected
+    toggleTestSelection: (testIds) =>
+      set((state) => {
+        const current = new Set(state.selectedTestIds)
+        const allSelected = testIds.every(id => current.has(id))
+        for (const id of testIds) {
+          if (allSelected) current.delete(id)
+          else current.add(id)
+        }
+        return { selectedTestIds: Array.from(current) }
+      }),
+
+    setTestSelection: (testIds) => set({ selectedTestIds: testIds }),
+
+    clearTestSelection: () => set({ selectedTestIds: [] }),
+
+    setShards: (shards) => set({ selectedShards: shards }),
+
+    startRun: (runId, queuePosition = null) =>
+      set({
+        activeRunId: runId,
+        status: 'queued',
+        queuePosition,
+        progress: { passed: 0, failed: 0, pending: 0, total: 0 },
+        results: null,
+        logs: [],
+        lastLogSeq: 0,
+        droppedLogs: 0,
+        scenarios: [],
+        logScenarioId: null,
+        showReport: false,
+      }),
+
+    addLog: (log) => set((state) => appendLogs(state, [log])),
+
+    addLogs: (newLogs) => set((state) => appendLogs(state, newLogs)),
+
+    setProgress: (progress) => set({ progress }),
+
+    setResults: (results) => set({ results, showReport: true }),
+
+    setStatus: (status) =>
+      set(status === 'queued' ? { status } : { status, queuePosition: null }),
+
+    setQueuePosition: (queuePosition) => set({ queuePosition }),
+
+    setConnected: (isConnected) => set({ isConnected }),
+
+    updateScenario: (scenario) =>
+      set((state) => {
+        const existingIndex = state.scenarios.findIndex(s => s.id === scenario.id)
+        if (existingIndex >= 0) {
+          const newScenarios = [...state.scenarios]
+          newScenarios[existingIndex] = scenario
+          return { scenarios: newScenarios }
+        }
+        return { scenarios: [...state.scenarios, scenario] }
+      }),
+
+    setLogScenario: (logScenarioId) => set({ logScenarioId }),
+
+    toggleAutoScroll: () =>
+      set((state) => ({ autoScroll: !state.autoScroll })),
+
+    toggleReport: () =>
+      set((state) => ({ showReport: !state.showReport })),
+
+    clearLogs: () => set((state) => ({ logs: [], droppedLogs: state.droppedLogs + state.logs.length })),
+
+    reset: () =>
+      set({
+        activeRunId: null,
+        status: null,
+        queuePosition: null,
+        progress: null,
+        results: null,
+        logs: [],
+        lastLogSeq: 0,
+        droppedLogs: 0,
+        scenarios: [],
+        logScenarioId: null,
+        isConnected: false,
+        showReport: false,
+      }),
+  }))
+}
+
+// The dashboard's own run and selection
+const dashboardStore = createE2EDashboardStore()
+
+/**
+ * Pages that show some other run (e.g. a past one) provide their own store,
+ * so the components below don't touch the dashboard's active run or selection.
+ */
+export const E2EDashboardStoreContext = createContext<StoreApi<E2EDashboardState> | null>(null)
+
+export function useE2EDashboardStoreApi(): StoreApi<E2EDashboardState> {
+  return useContext(E2EDashboardStoreContext) ?? dashboardStore
+}
+
+export function useE2EDashboardStore(): E2EDashboardState
+export function useE2EDashboardStore<T>(selector: (state: E2EDashboardState) => T): T
+export function useE2EDashboardStore<T>(selector?: (state: E2EDashboardState) => T) {
+  return useStore(useE2EDashboardStoreApi(), selector ?? ((state: E2EDashboardState) => state as T))
+}
 
 // Selector hooks
 export const useSelectedCategory = () => useE2EDashboardStore((s) => s.selectedCategory)
 export const useSelectedConfig = () => useE2EDashboardStore((s) => s.selectedConfig)
+export const useSelectedTestIds = () => useE2EDashboardStore((s) => s.selectedTestIds)
+export const useSelectedShards = () => useE2EDashboardStore((s) => s.selectedShards)
 export const useActiveRunId = () => useE2EDashboardStore((s) => s.activeRunId)
 export const useTestStatus = () => useE2EDashboardStore((s) => s.status)
+export const useQueuePosition = () => useE2EDashboardStore((s) => s.queuePosition)
 export const useTestProgress = () => useE2EDashboardStore((s) => s.progress)
 export const useTestResults = () => useE2EDashboardStore((s) => s.results)
 export const useLogs = () => useE2EDashboardStore((s) => s.logs)
+export const useDroppedLogs = () => useE2EDashboardStore((s) => s.droppedLogs)
 export const useScenarios = () => useE2EDashboardStore((s) => s.scenarios)
+export const useLogScenarioId = () => useE2EDashboardStore((s) => s.logScenarioId)
 export const useAutoScroll = () => useE2EDashboardStore((s) => s.autoScroll)
 export const useIsConnected = () => useE2EDashboardStore((s) => s.isConnected)
 export const useShowReport = () => useE2EDashboardStore((s) => s.showReport)